@@ -0,0 +1,259 @@
+import { useMemo, useState } from 'react'
+import { useAppSelector, useAppDispatch } from '../../store/hooks'
+import { removeApplication, updateApplication } from '../../store/slices/applications-slice'
+import { downloadFollowUpEvent } from '../../utils/calendar-export'
+import { type ApplicationRecord, ApplicationStatus } from '../../types'
+import './application-tracker.css'
+
+interface ApplicationTrackerProps {
+	initialExpandedId?: string // Application opened from a reminder link
+	onClose: () => void
+	// Opens a template pre-filled from the application
+	onCompose: (application: ApplicationRecord, templateId: string) => void
+}
+
+const STATUS_LABELS: Record<ApplicationStatus, string> = {
+	[ApplicationStatus.APPLIED]: 'Applied',
+	[ApplicationStatus.INTERVIEWING]: 'Interviewing',
+	[ApplicationStatus.OFFER]: 'Offer',
+	[ApplicationStatus.REJECTED]: 'Rejected',
+}
+
+// Templates that can be started from an application
+const FOLLOW_UP_TEMPLATES = [
+	{ id: 'follow-up', label: 'Follow up', icon: '📨' },
+	{ id: 'thank-you-interview', label: 'Thank you', icon: '🙏' },
+]
+
+export function ApplicationTracker({ initialExpandedId, onClose, onCompose }: ApplicationTrackerProps) {
+	const dispatch = useAppDispatch()
+	const { applications } = useAppSelector((state) => state.applications)
+	const { templates } = useAppSelector((state) => state.templates)
+
+	const [search, setSearch] = useState('')
+	const [statusFilter, setStatusFilter] = useState<ApplicationStatus | ''>('')
+	const [expandedId, setExpandedId] = useState<string | null>(initialExpandedId ?? null)
+
+	const filtered = useMemo(() => {
+		const term = search.trim().toLowerCase()
+		return applications.filter(
+			(a) =>
+				(!statusFilter || a.status === statusFilter) &&
+				(!term ||
+					a.companyName.toLowerCase().includes(term) ||
+					a.position.toLowerCase().includes(term))
+		)
+	}, [applications, search, statusFilter])
+
+	const followUpTemplates = FOLLOW_UP_TEMPLATES.filter((f) => templates.some((t) => t.id === f.id))
+
+	const handleDelete = (application: ApplicationRecord) => {
+		const title = [application.position, application.companyName].filter(Boolean).join(' at ')
+		if (window.confirm(`Delete the application "${title || 'Untitled'}"?`)) {
+			dispatch(removeApplication(application.id))
+		}
+	}
+
+	return (
+		<div className="settings-panel application-tracker">
+			<h3>Applications</h3>
+			<p className="settings-description">
+				Every exported letter is recorded here with a follow-up date a week later. Update the status as you hear back, add the follow-up reminder to your calendar, and start a follow-up or thank-you letter from any application.
+			</p>
+
+			<div className="application-tracker-filters">
+				<input
+					type="search"
+					value={search}
+					onChange={(e) => setSearch(e.target.value)}
+					placeholder="Search company or position"
+					className="form-input"
+					aria-label="Search applications"
+				/>
+				<select
+					value={statusFilter}
+					onChange={(e) => setStatusFilter(e.target.value as ApplicationStatus | '')}
+					className="form-input"
+					aria-label="Filter by status"
+				>
+					<option value="">All statuses</option>
+					{Object.values(ApplicationStatus).map((status) => (
+						<option key={status} value={status}>
+							{STATUS_LABELS[status]}
+						</option>
+					))}
+				</select>
+			</div>
+
+			{applications.length === 0 ? (
+				<p className="application-tracker-empty">No applications yet. Export a letter to record one.</p>
+			) : filtered.length === 0 ? (
+				<p className="application-tracker-empty">No applications match these filters.</p>
+			) : (
+				<div className="application-tracker-table-wrapper">
+					<table className="application-tracker-table">
+						<thead>
+							<tr>
+								<th>Company</th>
+								<th>Position</th>
+								<th>Template</th>
+								<th>Sent</th>
+								<th>Status</th>
+								<th>Follow up</th>
+								<th aria-label="Actions" />
+							</tr>
+						</thead>
+						<tbody>
+							{filtered.map((application) => (
+								<ApplicationRow
+									key={application.id}
+									application={application}
+									templateName={
+										templates.find((t) => t.id === application.templateId)?.name ?? 'Deleted template'
+									}
+									expanded={expandedId === application.id}
+									onToggle={() =>
+										setExpandedId(expandedId === application.id ? null : application.id)
+									}
+									onChange={(changes) =>
+										dispatch(updateApplication({ id: application.id, application: changes }))
+									}
+									onDelete={() => handleDelete(application)}
+								>
+									{followUpTemplates.map((followUp) => (
+										<button
+											key={followUp.id}
+											type="button"
+											onClick={() => onCompose(application, followUp.id)}
+											className="btn btn-secondary btn-template-action"
+											title={`Write a ${followUp.label.toLowerCase()} letter for this application`}
+										>
+											<span>{followUp.icon}</span>
+											<span>{followUp.label}</span>
+										</button>
+									))}
+								</ApplicationRow>
+							))}
+						</tbody>
+					</table>
+				</div>
+			)}
+
+			<div className="settings-actions">
+				<span className="application-tracker-count">
+					{filtered.length} of {applications.length}{' '}
+					{applications.length === 1 ? 'application' : 'applications'}
+				</span>
+				<div className="settings-actions-right">
+					<button onClick={onClose} className="btn btn-secondary" type="button">
+						Close
+					</button>
+				</div>
+			</div>
+		</div>
+	)
+}
+
+interface ApplicationRowProps {
+	application: ApplicationRecord
+	templateName: string
+	expanded: boolean
+	onToggle: () => void
+	onChange: (changes: Partial<Pick<ApplicationRecord, 'status' | 'sentAt' | 'followUpAt'>>) => void
+	onDelete: () => void
+	children: React.ReactNode // Follow-up actions
+}
+
+function ApplicationRow({
+	application,
+	templateName,
+	expanded,
+	onToggle,
+	onChange,
+	onDelete,
+	children,
+}: ApplicationRowProps) {
+	return (
+		<>
+			<tr className={`application-tracker-row application-status-${application.status}`}>
+				<td>{application.companyName || '—'}</td>
+				<td>{application.position || '—'}</td>
+				<td>{templateName}</td>
+				<td>
+					<input
+						type="date"
+						value={application.sentAt}
+						onChange={(e) => e.target.value && onChange({ sentAt: e.target.value })}
+						className="application-tracker-date"
+						aria-label="Date sent"
+					/>
+				</td>
+				<td>
+					<select
+						value={application.status}
+						onChange={(e) => onChange({ status: e.target.value as ApplicationStatus })}
+						className="application-tracker-status"
+						aria-label="Status"
+					>
+						{Object.values(ApplicationStatus).map((status) => (
+							<option key={status} value={status}>
+								{STATUS_LABELS[status]}
+							</option>
+						))}
+					</select>
+				</td>
+				<td>
+					<div className="application-tracker-follow-up">
+						<input
+							type="date"
+							value={application.followUpAt ?? ''}
+							onChange={(e) => onChange({ followUpAt: e.target.value || undefined })}
+							className="application-tracker-date"
+							aria-label="Follow-up date"
+						/>
+						<button
+							type="button"
+							onClick={() => downloadFollowUpEvent(application, application.followUpAt!)}
+							disabled={!application.followUpAt}
+							className="btn btn-secondary btn-template-action"
+							title="Download a calendar reminder (.ics)"
+							aria-label="Download follow-up reminder"
+						>
+							📅
+						</button>
+					</div>
+				</td>
+				<td>
+					<div className="application-tracker-actions">
+						<button
+							type="button"
+							onClick={onToggle}
+							className="btn btn-secondary btn-template-action"
+							aria-expanded={expanded}
+						>
+							<span>📄</span>
+							<span>{expanded ? 'Hide letter' : 'Letter'}</span>
+						</button>
+						{children}
+						<button
+							type="button"
+							onClick={onDelete}
+							className="btn btn-secondary btn-template-action"
+							aria-label="Delete application"
+							title="Delete application"
+						>
+							🗑️
+						</button>
+					</div>
+				</td>
+			</tr>
+			{expanded && (
+				<tr className="application-tracker-letter-row">
+					<td colSpan={7}>
+						<pre className="application-tracker-letter">{application.content}</pre>
+					</td>
+				</tr>
+			)}
+		</>
+	)
+}
@@ -1,61 +1,182 @@
-import { useState, useMemo, useEffect, useRef } from 'react'
+import { useState, useMemo, useEffect, useEffectEvent, useRef } from 'react'
 import { useAppSelector, useAppDispatch } from '../../store/hooks'
-import { setActiveTemplate } from '../../store/slices/templates-slice'
-import { updateDetails } from '../../store/slices/basic-details-slice'
-import { processTemplate } from '../../utils/template-processor'
+import { isTemplateModified, setActiveTemplate } from '../../store/slices/templates-slice'
+import {
+	updateDetails,
+	resetDetails,
+	addProfile,
+	renameProfile,
+	removeProfile,
+	setProfileSignature,
+	setActiveProfile,
+	createEmptyDetails,
+} from '../../store/slices/basic-details-slice'
+import { createDraft, saveDraft, setActiveDraft } from '../../store/slices/drafts-slice'
+import { recordApplication } from '../../store/slices/applications-slice'
+import { joinSegments, renderTemplateSegments } from '../../utils/template-processor'
+import { lintTemplate } from '../../utils/template-linter'
+import { validateField, validateFields } from '../../utils/field-validation'
+import {
+	type RichTextFormat,
+	DEFAULT_CURRENCY,
+	applyRichTextFormat,
+	formatCurrency,
+} from '../../utils/field-format'
+import {
+	type GroupItem,
+	parseGroupItems,
+	serializeGroupItems,
+	createGroupItem,
+} from '../../utils/repeatable-values'
 import { generatePDF, generateMarkdownPDF } from '../../utils/pdf-generator'
+import { generateDOCX } from '../../utils/docx-generator'
+import { buildLetterDocument } from '../../utils/letter-document'
+import { downloadHtml, downloadMarkdown } from '../../utils/letter-export'
 import { downloadText } from '../../utils/text-download'
-import { saveDefaults, clearDefaults } from '../../utils/local-storage'
-import { FieldType } from '../../types'
+import { getQueryParams } from '../../utils/query-params'
+import {
+	type SharePayload,
+	decodeShareLink,
+	isEncryptedShareLink,
+	isShareLinkHash,
+} from '../../utils/share-link'
+import { createTemplatePack } from '../../utils/template-pack'
+import { createVCard, hasVCardDetails } from '../../utils/vcard'
+import { type QrCode, encodeQrCode } from '../../utils/qr-code'
+import { getRecipientDetails, buildSalutation } from '../../utils/recipient'
+import {
+	type ApplicationRecord,
+	type BasicDetails,
+	type Draft,
+	type TemplateVariable,
+	FieldType,
+	FieldGroup,
+} from '../../types'
+import { FIELD_GROUPS, getVariableGroup, sortByOrder } from '../../constants/field-groups'
 import { SignaturePad } from '../signature-pad/signature-pad'
+import { ProfileSwitcher } from '../profile-switcher/profile-switcher'
+import { DraftList } from '../draft-list/draft-list'
+import { ApplicationTracker } from '../application-tracker/application-tracker'
+import { ShareDialog } from '../share-dialog/share-dialog'
+import { QrCodeView } from '../qr-code/qr-code'
+import { TemplateDiagnostics } from '../template-diagnostics/template-diagnostics'
+import { TemplateEditor } from '../template-editor/template-editor'
+import { TemplatePackPanel } from '../template-pack-panel/template-pack-panel'
+import { VariableManager } from '../variable-manager/variable-manager'
 import Joyride, { type Step, type CallBackProps, STATUS } from 'react-joyride'
 import './cover-letter-page.css'
 
+// Sender block fields shown in Settings below the contact details
+const SENDER_ADDRESS_FIELDS: {
+	key: keyof BasicDetails
+	label: string
+	type: string
+	placeholder: string
+	wide?: boolean
+}[] = [
+	{ key: 'address', label: 'Street Address', type: 'text', placeholder: 'e.g., 123 Main Street, Apt 4', wide: true },
+	{ key: 'city', label: 'City', type: 'text', placeholder: 'e.g., Austin' },
+	{ key: 'state', label: 'State / Region', type: 'text', placeholder: 'e.g., TX' },
+	{ key: 'zipCode', label: 'ZIP / Postal Code', type: 'text', placeholder: 'e.g., 78701' },
+	{ key: 'country', label: 'Country', type: 'text', placeholder: 'e.g., United States' },
+	{ key: 'linkedIn', label: 'LinkedIn', type: 'url', placeholder: 'https://linkedin.com/in/username' },
+	{ key: 'portfolio', label: 'Portfolio', type: 'url', placeholder: 'https://yourname.dev' },
+]
+
+// Input types for sub-fields of repeatable groups; anything else is plain text
+const SUB_FIELD_INPUT_TYPES: Partial<Record<FieldType, string>> = {
+	[FieldType.EMAIL]: 'email',
+	[FieldType.PHONE]: 'tel',
+	[FieldType.URL]: 'url',
+	[FieldType.DATE]: 'date',
+	[FieldType.NUMBER]: 'number',
+	[FieldType.CURRENCY]: 'number',
+}
+
+/**
+ * Value a field starts with: saved sender details, then the variable's default.
+ * A checkbox that already has a value keeps it; unchecked is stored as '' and
+ * stays unchecked even when it defaults to checked, as in getRawValue.
+ */
+function getStartingValue(
+	variable: TemplateVariable,
+	details: BasicDetails,
+	current: Record<string, string> = {}
+): string {
+	if (variable.fieldType === FieldType.CHECKBOX && variable.id in current) {
+		return current[variable.id]
+	}
+	return details[variable.id as keyof BasicDetails] || variable.defaultValue || ''
+}
+
 export function CoverLetterPage() {
 	const dispatch = useAppDispatch()
 	const { variables } = useAppSelector((state) => state.templateVariables)
 	const { templates, activeTemplateId } = useAppSelector((state) => state.templates)
-	const { details } = useAppSelector((state) => state.basicDetails)
+	const { details, profiles, activeProfileId } = useAppSelector((state) => state.basicDetails)
+	const activeProfile = profiles.find((p) => p.id === activeProfileId) ?? profiles[0]
+	const { drafts, activeDraftId } = useAppSelector((state) => state.drafts)
+	const activeDraft = drafts.find((d) => d.id === activeDraftId)
+	// The open draft keeps the signature it was saved with until its profile changes
+	const signature =
+		activeDraft?.profileId === activeProfileId && activeDraft.signature !== undefined
+			? activeDraft.signature
+			: (activeProfile.signature ?? null)
 
 	const activeTemplate = useMemo(
 		() => templates.find((t) => t.id === activeTemplateId) || templates[0],
 		[templates, activeTemplateId]
 	)
 
+	// The recipient section is part of every letter, whether or not the template uses its tokens
 	const templateVariables = useMemo(
-		() => variables.filter((v) => activeTemplate.variables.includes(v.id)),
+		() =>
+			variables.filter(
+				(v) =>
+					activeTemplate.variables.includes(v.id) ||
+					getVariableGroup(v) === FieldGroup.RECIPIENT
+			),
 		[variables, activeTemplate]
 	)
 
-	const [formValues, setFormValues] = useState<Record<string, string>>(() => {
-		const initial: Record<string, string> = {}
-		templateVariables.forEach((variable) => {
-			// For techStack, use saved value from details if available
-			if (variable.id === 'techStack' && details.techStack) {
-				initial[variable.id] = details.techStack
-			} else {
-				initial[variable.id] = details[variable.id as keyof typeof details] || variable.defaultValue || ''
-			}
-		})
-		return initial
-	})
+	const templateDiagnostics = useMemo(
+		() => lintTemplate(activeTemplate, variables),
+		[activeTemplate, variables]
+	)
+
+	const [formValues, setFormValues] = useState<Record<string, string>>(() =>
+		Object.fromEntries(templateVariables.map((variable) => [variable.id, getStartingValue(variable, details)]))
+	)
 
 	const [searchTerms, setSearchTerms] = useState<Record<string, string>>({})
 	const [showSuggestions, setShowSuggestions] = useState<Record<string, boolean>>({})
 	const [highlightedIndex, setHighlightedIndex] = useState<Record<string, number>>({})
 	const [showSettings, setShowSettings] = useState(false)
+	// null when closed; templateId is null when creating a new template
+	const [templateEditor, setTemplateEditor] = useState<{ templateId: string | null } | null>(null)
+	const [showTemplatePack, setShowTemplatePack] = useState(false)
+	const [showVariableManager, setShowVariableManager] = useState(false)
+	// Follow-up reminders link back with ?application=<id>
+	const [linkedApplicationId] = useState(() => getQueryParams().application)
+	const [showApplications, setShowApplications] = useState(Boolean(linkedApplicationId))
+	// Message above the form, e.g. after opening a share link or a failed export
+	const [pageNotice, setPageNotice] = useState<{ error: boolean; message: string } | null>(null)
+	const [showShareDialog, setShowShareDialog] = useState(false)
+	const shareLinkHandled = useRef(false)
+	// Passphrase-protected share link waiting to be unlocked
+	const [lockedShareHash, setLockedShareHash] = useState(() =>
+		isEncryptedShareLink(window.location.hash) ? window.location.hash : null
+	)
+	const [unlockPassphrase, setUnlockPassphrase] = useState('')
+	const [unlockError, setUnlockError] = useState<string | null>(null)
+	// Share link carrying templates, waiting for the receiver to import or decline them
+	const [sharedTemplateLink, setSharedTemplateLink] = useState<SharePayload | null>(null)
 	const [runTour, setRunTour] = useState(false)
-	const [expandedGroups, setExpandedGroups] = useState<Record<string, boolean>>({
-		applicationDetails: true,
-		templateSpecific: true,
-		personalInfo: true,
-	})
-	const [settingsValues, setSettingsValues] = useState({
-		fullName: details.fullName,
-		email: details.email,
-		phone: details.phone,
-		techStack: details.techStack || '',
-	})
+	const [expandedGroups, setExpandedGroups] = useState<Record<string, boolean>>(() =>
+		Object.fromEntries(FIELD_GROUPS.map((group) => [group.id, group.defaultExpanded]))
+	)
+	const [settingsValues, setSettingsValues] = useState<BasicDetails>(details)
+	const [profileName, setProfileName] = useState(activeProfile.name)
 
 	const toggleGroup = (groupName: string) => {
 		setExpandedGroups((prev) => ({
@@ -63,27 +184,22 @@ export function CoverLetterPage() {
 			[groupName]: !prev[groupName],
 		}))
 	}
-	const [signature, setSignature] = useState<string | null>(() => {
-		const saved = localStorage.getItem('lettercraft_signature')
-		return saved || null
-	})
 	const [showExportDropdown, setShowExportDropdown] = useState(false)
+	const [includeContactQr, setIncludeContactQr] = useState(false) // vCard QR code in the PDF header
+	const [showContactQr, setShowContactQr] = useState(false)
 	const exportDropdownRef = useRef<HTMLDivElement>(null)
 	const isInitialMount = useRef(true)
+	// Values of a resumed draft, kept as they are when its template or profile is switched to
+	const resumedValues = useRef<Record<string, string> | null>(null)
 
 	// Initialize form values on mount
 	useEffect(() => {
 		if (isInitialMount.current && templates.length > 0 && variables.length > 0) {
-			const initial: Record<string, string> = {}
-			templateVariables.forEach((variable) => {
-				// For techStack, use saved value from details if available
-				if (variable.id === 'techStack' && details.techStack) {
-					initial[variable.id] = details.techStack
-				} else {
-					initial[variable.id] = details[variable.id as keyof typeof details] || variable.defaultValue || ''
-				}
-			})
-			setFormValues(initial)
+			setFormValues((prev) =>
+				Object.fromEntries(
+					templateVariables.map((variable) => [variable.id, getStartingValue(variable, details, prev)])
+				)
+			)
 			isInitialMount.current = false
 		}
 	}, [templates, variables, templateVariables, details, dispatch])
@@ -92,19 +208,19 @@ export function CoverLetterPage() {
 	// Preserve existing values for fields that exist in both templates
 	useEffect(() => {
 		if (!isInitialMount.current) {
+			const resumed = resumedValues.current
+			resumedValues.current = null
 			const updated: Record<string, string> = {}
 			templateVariables.forEach((variable) => {
 				// Preserve existing form value if it exists, otherwise use details or default
 				const existingValue = formValues[variable.id]
-				if (existingValue && existingValue.trim()) {
+				if (resumed && variable.id in resumed) {
+					// Blank fields and unchecked boxes in a draft were left that way on purpose
+					updated[variable.id] = resumed[variable.id]
+				} else if (existingValue && existingValue.trim()) {
 					updated[variable.id] = existingValue
 				} else {
-					// For techStack, prefer saved details value
-					if (variable.id === 'techStack' && details.techStack) {
-						updated[variable.id] = details.techStack
-					} else {
-						updated[variable.id] = details[variable.id as keyof typeof details] || variable.defaultValue || ''
-					}
+					updated[variable.id] = getStartingValue(variable, details, formValues)
 				}
 			})
 			setFormValues(updated)
@@ -115,39 +231,214 @@ export function CoverLetterPage() {
 		}
 	}, [activeTemplateId, templateVariables, details, dispatch])
 
-	// Update settings values when details change
+	// Whether the letter holds anything beyond sender details and default values
+	const hasDraftContent = useMemo(
+		() =>
+			templateVariables.some((variable) => {
+				const value = formValues[variable.id] || ''
+				return !(variable.id in details) && value.trim() !== '' && value !== (variable.defaultValue || '')
+			}),
+		[templateVariables, formValues, details]
+	)
+
+	// Autosave the letter, starting a draft once it has content of its own
 	useEffect(() => {
-		setSettingsValues({
-			fullName: details.fullName,
-			email: details.email,
-			phone: details.phone,
-			techStack: details.techStack || '',
+		if (isInitialMount.current || !activeTemplateId) return
+		const content = { templateId: activeTemplateId, values: formValues, profileId: activeProfileId, signature }
+		if (activeDraft) {
+			// Drafts saved without a signature take a copy with their next change, not on opening
+			const changed =
+				activeDraft.templateId !== content.templateId ||
+				activeDraft.profileId !== content.profileId ||
+				(activeDraft.signature !== undefined && activeDraft.signature !== content.signature) ||
+				JSON.stringify(activeDraft.values) !== JSON.stringify(content.values)
+			if (changed) {
+				dispatch(saveDraft(content))
+			}
+		} else if (hasDraftContent) {
+			dispatch(createDraft(content))
+		}
+	}, [formValues, activeTemplateId, activeProfileId, signature, activeDraft, hasDraftContent, dispatch])
+
+	const handleResumeDraft = (draft: Draft) => {
+		const switchesTemplate = draft.templateId !== activeTemplateId && templates.some((t) => t.id === draft.templateId)
+		const switchesProfile = draft.profileId !== activeProfileId && profiles.some((p) => p.id === draft.profileId)
+		dispatch(setActiveDraft(draft.id))
+		if (switchesTemplate) {
+			dispatch(setActiveTemplate(draft.templateId))
+		}
+		if (switchesProfile) {
+			dispatch(setActiveProfile(draft.profileId))
+		}
+		// The template-change effect would otherwise fill the draft's blank fields with defaults
+		if (switchesTemplate || switchesProfile) {
+			resumedValues.current = draft.values
+		}
+		setFormValues(draft.values)
+	}
+
+	// Leave the active draft as it is and start over from sender details and defaults
+	const handleNewLetter = () => {
+		dispatch(setActiveDraft(null))
+		setFormValues(
+			Object.fromEntries(
+				templateVariables.map((variable) => [variable.id, getStartingValue(variable, details, formValues)])
+			)
+		)
+	}
+
+	// Fill in a decoded share link, or ask before importing the templates it carries
+	const handleSharedPayload = (payload: SharePayload) => {
+		if (payload.pack) {
+			setSharedTemplateLink(payload)
+			return
+		}
+		const { templateId, values } = payload
+		const knownTemplate = !templateId || templates.some((t) => t.id === templateId)
+		if (templateId && knownTemplate) {
+			dispatch(setActiveTemplate(templateId))
+		}
+		dispatch(setActiveDraft(null))
+		setFormValues((prev) => ({ ...prev, ...values }))
+		setPageNotice({
+			error: false,
+			message: knownTemplate
+				? 'Loaded the letter details from the share link.'
+				: "The template this link was made with isn't available here, so its details were filled into the current template.",
 		})
-	}, [details.fullName, details.email, details.phone, details.techStack])
+	}
 
+	const onShareLinkDecoded = useEffectEvent(handleSharedPayload)
+	const onShareLinkFailed = useEffectEvent((err: unknown) => {
+		setPageNotice({
+			error: true,
+			message: err instanceof Error ? err.message : 'The share link could not be opened.',
+		})
+	})
 
-	const processedContent = useMemo(() => {
-		return processTemplate(activeTemplate.content, templateVariables, formValues)
-	}, [activeTemplate.content, templateVariables, formValues])
+	// Open a share link from the URL hash once on load; protected links wait for a passphrase
+	useEffect(() => {
+		if (shareLinkHandled.current) return
+		shareLinkHandled.current = true
+		const { hash } = window.location
+		if (!isShareLinkHash(hash)) return
 
-	// Check which required fields are missing (check all variables, including those with defaults)
-	const missingRequiredFields = useMemo(() => {
-		const missing: string[] = []
+		// Drop the payload from the address bar so a reload doesn't undo later edits
+		window.history.replaceState(null, '', window.location.pathname + window.location.search)
+
+		if (isEncryptedShareLink(hash)) return
+		decodeShareLink(hash).then(onShareLinkDecoded).catch(onShareLinkFailed)
+	}, [])
+
+	const handleUnlockShareLink = async (e: React.FormEvent) => {
+		e.preventDefault()
+		if (!lockedShareHash) return
+		try {
+			const payload = await decodeShareLink(lockedShareHash, unlockPassphrase)
+			setLockedShareHash(null)
+			setUnlockPassphrase('')
+			setUnlockError(null)
+			handleSharedPayload(payload)
+		} catch (err) {
+			setUnlockError(err instanceof Error ? err.message : 'The share link could not be opened.')
+		}
+	}
+
+	// Fill in the shared details once the shared templates were imported or declined
+	const finishSharedTemplateImport = (templateIds: Record<string, string>) => {
+		if (!sharedTemplateLink) return
+		const { templateId: sharedId, values } = sharedTemplateLink
+		const imported = Object.keys(templateIds).length > 0
+		const templateId = sharedId
+			? (templateIds[sharedId] ?? (templates.some((t) => t.id === sharedId) ? sharedId : null))
+			: null
+
+		if (templateId) {
+			dispatch(setActiveTemplate(templateId))
+		}
+		const hasValues = Object.keys(values).length > 0
+		if (hasValues) {
+			dispatch(setActiveDraft(null))
+			setFormValues((prev) => ({ ...prev, ...values }))
+		}
+
+		setSharedTemplateLink(null)
+		if (imported || hasValues) {
+			setPageNotice({
+				error: false,
+				message: imported
+					? `Imported the shared templates${hasValues ? ' and filled in the letter details' : ''}.`
+					: templateId
+						? 'Loaded the letter details from the share link.'
+						: "The shared template wasn't imported, so its details were filled into the current template.",
+			})
+		}
+	}
+
+	// Start a follow-up letter from an application, keeping its company, position and recipient
+	const handleComposeFromApplication = (application: ApplicationRecord, templateId: string) => {
+		dispatch(setActiveDraft(null))
+		dispatch(setActiveTemplate(templateId))
+		setFormValues({ ...application.values, applicationDate: application.sentAt })
+		setShowApplications(false)
+	}
+
+	// Update settings values when details or the active profile change
+	useEffect(() => {
+		setSettingsValues(details)
+		setProfileName(activeProfile.name)
+	}, [activeProfile.name, details])
+
+
+	const recipient = useMemo(() => getRecipientDetails(formValues), [formValues])
+	const generatedSalutation = useMemo(() => buildSalutation(recipient), [recipient])
+
+	// Form values plus the salutation built from the recipient unless one was typed in
+	const letterValues = useMemo(
+		() => ({
+			...formValues,
+			salutation: formValues.salutation?.trim() || generatedSalutation,
+		}),
+		[formValues, generatedSalutation]
+	)
+
+	// Rendered template, keeping which text came from which field for the Markdown, Markdown PDF and HTML exports
+	const contentSegments = useMemo(() => {
+		return renderTemplateSegments(activeTemplate.content, templateVariables, letterValues)
+	}, [activeTemplate.content, templateVariables, letterValues])
+
+	const processedContent = useMemo(() => joinSegments(contentSegments), [contentSegments])
+
+	// Value of each field as exported: from the form, or from details (for fields with defaults)
+	const exportValues = useMemo(() => {
+		const values: Record<string, string> = {}
 		templateVariables.forEach((variable) => {
-			if (variable.required) {
-				// Get value from form or from details (for fields with defaults)
-				const formValue = formValues[variable.id] || ''
-				const detailValue = details[variable.id as keyof typeof details] || ''
-				const value = formValue.trim() || (typeof detailValue === 'string' ? detailValue.trim() : '')
-				if (!value) {
-					missing.push(variable.label)
-				}
-			}
+			const formValue = formValues[variable.id] || ''
+			const detailValue = details[variable.id as keyof typeof details] || ''
+			values[variable.id] = formValue.trim() || (typeof detailValue === 'string' ? detailValue.trim() : '')
 		})
-		return missing
+		return values
 	}, [templateVariables, formValues, details])
 
-	const isFormValid = missingRequiredFields.length === 0
+	// Check which required fields are missing (check all variables, including those with defaults)
+	const missingRequiredFields = useMemo(
+		() => templateVariables.filter((v) => v.required && !exportValues[v.id]).map((v) => v.label),
+		[templateVariables, exportValues]
+	)
+
+	// Filled fields that break a validation rule (missing values are reported above)
+	const invalidFields = useMemo(
+		() =>
+			Object.values(
+				validateFields(
+					templateVariables.map((variable) => ({ ...variable, required: false })),
+					exportValues
+				)
+			),
+		[templateVariables, exportValues]
+	)
+
+	const isFormValid = missingRequiredFields.length === 0 && invalidFields.length === 0
 
 	const handleInputChange = (variableId: string, value: string) => {
 		setFormValues((prev) => ({
@@ -163,27 +454,64 @@ export function CoverLetterPage() {
 		}))
 	}
 
+	// Sender block for exports: form values take precedence over the active profile
+	const senderDetails = useMemo(() => {
+		const sender = { ...details }
+		;(Object.keys(details) as (keyof BasicDetails)[]).forEach((key) => {
+			sender[key] = formValues[key] || details[key] || ''
+		})
+		return sender
+	}, [details, formValues])
+
+	// Keep a record of every exported letter in the application tracker
+	const recordExport = () => {
+		dispatch(
+			recordApplication({
+				companyName: formValues.companyName || '',
+				position: formValues.position || '',
+				templateId: activeTemplate.id,
+				content: processedContent,
+				values: formValues,
+				draftId: activeDraftId ?? undefined,
+			})
+		)
+	}
+
 	const handleExportPDF = () => {
 		if (!isFormValid) return
 		const companyName = formValues.companyName || formValues.position || 'application'
 		const filename = `cover-letter-${companyName}-${Date.now()}.pdf`
+		let qrCode: QrCode | undefined
+		if (includeContactQr && hasVCardDetails(senderDetails)) {
+			// A contact card too long for a QR code shouldn't block the export
+			try {
+				qrCode = encodeQrCode(createVCard(senderDetails))
+			} catch (err) {
+				setPageNotice({
+					error: true,
+					message: `The PDF was exported without the contact QR code. ${
+						err instanceof Error ? err.message : 'The QR code could not be created.'
+					}`,
+				})
+			}
+		}
 		generatePDF(processedContent, filename, {
-			fullName: formValues.fullName || details.fullName,
-			email: formValues.email || details.email,
-			phone: formValues.phone || details.phone,
+			...senderDetails,
 			companyName: formValues.companyName,
 			position: formValues.position,
+			recipient,
 			signature: signature,
+			qrCode,
 		})
+		recordExport()
 		setShowExportDropdown(false)
 	}
 
+	// The new signature becomes the profile's and the open draft's; other drafts keep theirs
 	const handleSignatureChange = (signatureData: string | null) => {
-		setSignature(signatureData)
-		if (signatureData) {
-			localStorage.setItem('lettercraft_signature', signatureData)
-		} else {
-			localStorage.removeItem('lettercraft_signature')
+		dispatch(setProfileSignature(signatureData))
+		if (activeDraft) {
+			dispatch(saveDraft({ signature: signatureData }))
 		}
 	}
 
@@ -192,21 +520,64 @@ export function CoverLetterPage() {
 		const companyName = formValues.companyName || formValues.position || 'application'
 		const filename = `cover-letter-${companyName}-${Date.now()}.txt`
 		downloadText(processedContent, filename)
+		recordExport()
 		setShowExportDropdown(false)
 	}
 
-	const handleExportMarkdownPDF = () => {
+	const handleExportDOCX = async () => {
 		if (!isFormValid) return
 		const companyName = formValues.companyName || formValues.position || 'application'
-		const filename = `cover-letter-${companyName}-${Date.now()}.md.pdf`
-		generateMarkdownPDF(processedContent, filename, {
-			fullName: formValues.fullName || details.fullName,
-			email: formValues.email || details.email,
-			phone: formValues.phone || details.phone,
+		const filename = `cover-letter-${companyName}-${Date.now()}.docx`
+		try {
+			await generateDOCX(processedContent, filename, {
+				...senderDetails,
+				companyName: formValues.companyName,
+				position: formValues.position,
+				recipient,
+				signature: signature,
+			})
+			recordExport()
+		} catch {
+			// Failures come from browser APIs (compression, downloads), whose messages aren't meant for users
+			setPageNotice({
+				error: true,
+				message: 'The Word document could not be created. Try another export format, or a current browser.',
+			})
+		}
+		setShowExportDropdown(false)
+	}
+
+	// Markdown, Markdown PDF and HTML are rendered from the same letter document
+	const buildExportDocument = () =>
+		buildLetterDocument(contentSegments, activeTemplate, {
+			...senderDetails,
 			companyName: formValues.companyName,
 			position: formValues.position,
+			recipient,
 			signature: signature,
 		})
+
+	const handleExportMarkdown = () => {
+		if (!isFormValid) return
+		const companyName = formValues.companyName || formValues.position || 'application'
+		downloadMarkdown(buildExportDocument(), `cover-letter-${companyName}-${Date.now()}.md`)
+		recordExport()
+		setShowExportDropdown(false)
+	}
+
+	const handleExportMarkdownPDF = () => {
+		if (!isFormValid) return
+		const companyName = formValues.companyName || formValues.position || 'application'
+		generateMarkdownPDF(buildExportDocument(), `cover-letter-${companyName}-${Date.now()}.md.pdf`)
+		recordExport()
+		setShowExportDropdown(false)
+	}
+
+	const handleExportHTML = () => {
+		if (!isFormValid) return
+		const companyName = formValues.companyName || formValues.position || 'application'
+		downloadHtml(buildExportDocument(), `cover-letter-${companyName}-${Date.now()}.html`)
+		recordExport()
 		setShowExportDropdown(false)
 	}
 
@@ -244,118 +615,103 @@ export function CoverLetterPage() {
 	}
 
 	const handleSaveSettings = () => {
-		// Save to localStorage
-		saveDefaults({
-			fullName: settingsValues.fullName,
-			email: settingsValues.email,
-			phone: settingsValues.phone,
-			techStack: settingsValues.techStack,
-		})
-		
-		// Update Redux store
-		dispatch(updateDetails({
-			fullName: settingsValues.fullName,
-			email: settingsValues.email,
-			phone: settingsValues.phone,
-			techStack: settingsValues.techStack,
-		}))
+		// Update Redux store (persisted to localStorage by the store)
+		if (profileName.trim()) {
+			dispatch(renameProfile({ id: activeProfile.id, name: profileName.trim() }))
+		}
+		dispatch(updateDetails(settingsValues))
 		
 		// Update form values if they're empty
-		setFormValues((prev) => ({
-			...prev,
-			fullName: prev.fullName || settingsValues.fullName,
-			email: prev.email || settingsValues.email,
-			phone: prev.phone || settingsValues.phone,
-			techStack: prev.techStack || settingsValues.techStack,
-		}))
+		setFormValues((prev) => {
+			const updated = { ...prev }
+			;(Object.keys(settingsValues) as (keyof BasicDetails)[]).forEach((key) => {
+				if (key in prev && !prev[key]) {
+					updated[key] = settingsValues[key] || ''
+				}
+			})
+			return updated
+		})
 		
 		setShowSettings(false)
 	}
 
 	const handleCancelSettings = () => {
 		// Reset to current details
-		setSettingsValues({
-			fullName: details.fullName,
-			email: details.email,
-			phone: details.phone,
-			techStack: details.techStack || '',
-		})
+		setSettingsValues(details)
+		setProfileName(activeProfile.name)
 		setShowSettings(false)
 	}
 
 	const handleResetSettings = () => {
 		// Confirm reset action
-		if (window.confirm('Are you sure you want to reset all saved data? This will clear your name, email, phone, and tech stack defaults.')) {
-			// Clear localStorage
-			clearDefaults()
-			
-			// Reset Redux store
-			dispatch(updateDetails({
-				fullName: '',
-				email: '',
-				phone: '',
-				techStack: '',
-			}))
+		if (window.confirm('Are you sure you want to reset all saved data? This will delete all sender profiles and their signatures.')) {
+			// Reset Redux store to a single empty profile
+			dispatch(resetDetails())
 			
-			// Reset settings form values
-			setSettingsValues({
-				fullName: '',
-				email: '',
-				phone: '',
-				techStack: '',
+			// Clear form values for sender fields; settings values follow the store
+			setFormValues((prev) => {
+				const updated = { ...prev }
+				Object.keys(details).forEach((key) => {
+					if (key in prev) updated[key] = ''
+				})
+				return updated
 			})
-			
-			// Clear form values for personal info fields
-			setFormValues((prev) => ({
-				...prev,
-				fullName: '',
-				email: '',
-				phone: '',
-				techStack: '',
-			}))
-			
-			// Clear signature if exists
-			localStorage.removeItem('lettercraft_signature')
-			setSignature(null)
 		}
 	}
 
-	// Group and filter variables based on defaults
-	const groupedVariables = useMemo(() => {
-		// Application details - includes techStack (but techStack can be hidden if default exists)
-		const allApplicationFields = templateVariables.filter(v => 
-			['companyName', 'position', 'date', 'techStack'].includes(v.id)
-		)
-		
-		// Application fields to show (exclude techStack if it has a default)
-		const applicationFields = allApplicationFields.filter(v => {
-			if (v.id === 'techStack' && details.techStack?.trim()) {
-				return false // Hide techStack if default exists
-			}
-			return true
+	// Replace sender fields that still hold the previous profile's values
+	const handleProfileSwitch = (previous: BasicDetails, next: BasicDetails) => {
+		setFormValues((prev) => {
+			const updated = { ...prev }
+			;(Object.keys(next) as (keyof BasicDetails)[]).forEach((key) => {
+				if (!(key in prev)) return
+				const nextValue = next[key] || ''
+				if (prev[key] === (previous[key] || '') || nextValue) {
+					updated[key] = nextValue
+				}
+			})
+			return updated
 		})
-		
-		// Template-specific fields (always show)
-		const templateSpecificFields = templateVariables.filter(v => 
-			!['fullName', 'email', 'phone', 'techStack'].includes(v.id) && 
-			!['companyName', 'position', 'date'].includes(v.id)
-		)
-		
-		// Fields to show (exclude personal info and techStack if defaults exist)
-		const fieldsToShow = [
-			...applicationFields,
-			...templateSpecificFields,
-			// Only include personal info fields if they don't have defaults
-			...templateVariables.filter(v => 
-				['fullName', 'email', 'phone'].includes(v.id) && !details[v.id as keyof typeof details]?.trim()
-			)
-		]
-		
+	}
+
+	const handleNewProfile = () => {
+		const name = window.prompt('Name for the new sender profile', `Profile ${profiles.length + 1}`)
+		if (!name || !name.trim()) return
+		const previous = details
+		dispatch(addProfile({ name: name.trim() }))
+		// New profiles start empty
+		handleProfileSwitch(previous, createEmptyDetails())
+	}
+
+	const handleDeleteProfile = () => {
+		if (profiles.length <= 1) return
+		if (window.confirm(`Delete the sender profile "${activeProfile.name}" and its signature?`)) {
+			const next = profiles.find((p) => p.id !== activeProfile.id)!
+			dispatch(removeProfile(activeProfile.id))
+			handleProfileSwitch(details, next.details)
+		}
+	}
+
+	// Group variables into form sections using their group/order metadata
+	const groupedVariables = useMemo(() => {
+		// Fields backed by a saved default in Settings are hidden from the form
+		const hasSavedDefault = (variableId: string) => {
+			const saved = details[variableId as keyof typeof details]
+			return typeof saved === 'string' && saved.trim().length > 0
+		}
+
+		const groups = FIELD_GROUPS.map((group) => ({
+			...group,
+			fields: sortByOrder(
+				templateVariables.filter(
+					(v) => getVariableGroup(v) === group.id && !hasSavedDefault(v.id)
+				)
+			),
+		}))
+
 		return {
-			personalInfo: templateVariables.filter(v => ['fullName', 'email', 'phone'].includes(v.id)),
-			applicationDetails: allApplicationFields, // All application fields for grouping
-			templateSpecific: templateSpecificFields,
-			visible: fieldsToShow
+			groups,
+			visible: groups.flatMap((group) => group.fields),
 		}
 	}, [templateVariables, details])
 
@@ -374,61 +730,34 @@ export function CoverLetterPage() {
 		if (missingRequiredFields.length > 0) {
 			setExpandedGroups((prev) => {
 				const updatedGroups: Record<string, boolean> = { ...prev }
-				
-				// Check application details
-				const appDetailsMissing = groupedVariables.applicationDetails
-					.filter(v => v.required && missingRequiredFields.includes(v.label))
-					.length > 0
-				if (appDetailsMissing) updatedGroups.applicationDetails = true
-				
-				// Check template-specific
-				const templateSpecificMissing = groupedVariables.templateSpecific
-					.filter(v => v.required && missingRequiredFields.includes(v.label))
-					.length > 0
-				if (templateSpecificMissing) updatedGroups.templateSpecific = true
-				
-				// Check personal info
-				const personalInfoMissing = groupedVariables.personalInfo
-					.filter(v => v.required && missingRequiredFields.includes(v.label))
-					.length > 0
-				if (personalInfoMissing) updatedGroups.personalInfo = true
-				
+				groupedVariables.groups.forEach((group) => {
+					const groupMissing = group.fields.some(
+						(v) => v.required && missingRequiredFields.includes(v.label)
+					)
+					if (groupMissing) updatedGroups[group.id] = true
+				})
 				return updatedGroups
 			})
 		}
 	}, [missingRequiredFields, groupedVariables])
 
-	// Validate individual field
-	const validateField = (variable: typeof templateVariables[0], value: string): string | null => {
-		if (variable.fieldType === FieldType.MULTISELECT) {
-			const selectedValues = value ? value.split(', ').filter(Boolean) : []
-			if (variable.required && selectedValues.length === 0) {
-				return `${variable.label} is required`
-			}
-			return null
-		}
-		
-		if (variable.required && !value.trim()) {
-			return `${variable.label} is required`
-		}
-		
-		if (value.trim()) {
-			if (variable.fieldType === FieldType.EMAIL) {
-				const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
-				if (!emailRegex.test(value.trim())) {
-					return 'Please enter a valid email address'
-				}
-			}
-			
-			if (variable.fieldType === FieldType.PHONE) {
-				const phoneRegex = /^[\d\s\-\+\(\)]+$/
-				if (!phoneRegex.test(value.trim()) || value.trim().replace(/\D/g, '').length < 10) {
-					return 'Please enter a valid phone number'
-				}
-			}
-		}
-		
-		return null
+	const handleRichTextFormat = (variableId: string, format: RichTextFormat) => {
+		const textarea = document.getElementById(variableId) as HTMLTextAreaElement | null
+		const current = formValues[variableId] || ''
+		const result = applyRichTextFormat(
+			current,
+			textarea?.selectionStart ?? current.length,
+			textarea?.selectionEnd ?? current.length,
+			format
+		)
+		handleInputChange(variableId, result.value)
+
+		// Keep the formatted text selected
+		requestAnimationFrame(() => {
+			if (!textarea) return
+			textarea.focus()
+			textarea.setSelectionRange(result.start, result.end)
+		})
 	}
 
 	const handleCopyToClipboard = async () => {
@@ -475,7 +804,7 @@ export function CoverLetterPage() {
 		},
 		{
 			target: '.export-dropdown',
-			content: 'Export your cover letter as PDF, Text, or Markdown PDF. PDF is the default option and includes professional formatting.',
+			content: 'Export your cover letter as PDF, Word, Text, Markdown, Markdown PDF, or HTML. PDF is the default option and includes professional formatting.',
 			placement: 'top',
 		},
 		{
@@ -866,16 +1195,236 @@ export function CoverLetterPage() {
 						className="form-input"
 					/>
 				)
-			default:
+			case FieldType.SELECT:
+				return (
+					<div className="input-wrapper">
+						<select
+							id={variable.id}
+							value={value}
+							onChange={(e) => handleInputChange(variable.id, e.target.value)}
+							required={variable.required}
+							className={`form-input ${hasError ? 'input-error' : ''} ${isValid ? 'input-valid' : ''} ${isFilled ? 'input-filled' : ''}`}
+							aria-invalid={hasError}
+							aria-describedby={hasError ? `${variable.id}-error` : undefined}
+						>
+							<option value="">{variable.placeholder || `Select ${variable.label}`}</option>
+							{(variable.options ?? []).map((option) => (
+								<option key={option} value={option}>
+									{option}
+								</option>
+							))}
+						</select>
+						{hasError && (
+							<div id={`${variable.id}-error`} className="field-error" role="alert">
+								<span className="error-icon">⚠️</span>
+								<span>{error}</span>
+							</div>
+						)}
+					</div>
+				)
+			case FieldType.URL:
+				return (
+					<div className="input-wrapper">
+						<input
+							type="url"
+							id={variable.id}
+							value={value}
+							onChange={(e) => handleInputChange(variable.id, e.target.value)}
+							placeholder={variable.placeholder}
+							required={variable.required}
+							autoComplete="off"
+							className={`form-input ${hasError ? 'input-error' : ''} ${isValid ? 'input-valid' : ''} ${isFilled ? 'input-filled' : ''}`}
+							aria-invalid={hasError}
+							aria-describedby={hasError ? `${variable.id}-error` : undefined}
+						/>
+						{hasError && (
+							<div id={`${variable.id}-error`} className="field-error" role="alert">
+								<span className="error-icon">⚠️</span>
+								<span>{error}</span>
+							</div>
+						)}
+						{isValid && (
+							<div className="field-success">
+								<span className="success-icon">✓</span>
+							</div>
+						)}
+					</div>
+				)
+			case FieldType.CHECKBOX:
+				return (
+					<div className="input-wrapper">
+						<label className="form-checkbox">
+							<input
+								type="checkbox"
+								id={variable.id}
+								checked={value === 'true'}
+								onChange={(e) => handleInputChange(variable.id, e.target.checked ? 'true' : '')}
+								aria-invalid={hasError}
+								aria-describedby={hasError ? `${variable.id}-error` : undefined}
+							/>
+							<span>{variable.placeholder || 'Include'}</span>
+						</label>
+						{hasError && (
+							<div id={`${variable.id}-error`} className="field-error" role="alert">
+								<span className="error-icon">⚠️</span>
+								<span>{error}</span>
+							</div>
+						)}
+					</div>
+				)
+			case FieldType.CURRENCY:
 				return (
 					<div className="input-wrapper">
 						<input
 							type="text"
+							inputMode="decimal"
+							id={variable.id}
+							value={value}
+							onChange={(e) => handleInputChange(variable.id, e.target.value)}
+							placeholder={variable.placeholder || `Amount in ${variable.currency || DEFAULT_CURRENCY}`}
+							required={variable.required}
+							autoComplete="off"
+							className={`form-input ${hasError ? 'input-error' : ''} ${isValid ? 'input-valid' : ''} ${isFilled ? 'input-filled' : ''}`}
+							aria-invalid={hasError}
+							aria-describedby={hasError ? `${variable.id}-error` : undefined}
+						/>
+						{hasError && (
+							<div id={`${variable.id}-error`} className="field-error" role="alert">
+								<span className="error-icon">⚠️</span>
+								<span>{error}</span>
+							</div>
+						)}
+						{isValid && (
+							<div className="field-hint">
+								Appears as <span className="char-count">{formatCurrency(value, variable.currency)}</span>
+							</div>
+						)}
+					</div>
+				)
+			case FieldType.RICHTEXT:
+				return (
+					<div className="input-wrapper">
+						<div className="rich-text-toolbar" role="toolbar" aria-label={`${variable.label} formatting`}>
+							<button type="button" onClick={() => handleRichTextFormat(variable.id, 'bold')} title="Bold">
+								<strong>B</strong>
+							</button>
+							<button type="button" onClick={() => handleRichTextFormat(variable.id, 'italic')} title="Italic">
+								<em>I</em>
+							</button>
+							<button type="button" onClick={() => handleRichTextFormat(variable.id, 'bullet')} title="Bulleted list">
+								•
+							</button>
+						</div>
+						<textarea
 							id={variable.id}
 							value={value}
 							onChange={(e) => handleInputChange(variable.id, e.target.value)}
 							placeholder={variable.placeholder}
 							required={variable.required}
+							rows={8}
+							autoComplete="off"
+							className={`form-textarea ${hasError ? 'input-error' : ''} ${isValid ? 'input-valid' : ''} ${isFilled ? 'input-filled' : ''}`}
+							aria-invalid={hasError}
+							aria-describedby={hasError ? `${variable.id}-error` : undefined}
+						/>
+						{hasError && (
+							<div id={`${variable.id}-error`} className="field-error" role="alert">
+								<span className="error-icon">⚠️</span>
+								<span>{error}</span>
+							</div>
+						)}
+						<div className="field-hint">
+							**bold**, _italic_ and "- " bullets
+							{isFilled && <span className="char-count"> · {value.length} characters</span>}
+						</div>
+					</div>
+				)
+			case FieldType.REPEATABLE: {
+				const items = parseGroupItems(value)
+				const updateItems = (next: GroupItem[]) =>
+					handleInputChange(variable.id, serializeGroupItems(next))
+				const canAddItem = variable.maxItems === undefined || items.length < variable.maxItems
+				return (
+					<div id={variable.id} className="input-wrapper repeatable-group">
+						{items.map((item, index) => (
+							<fieldset key={index} className="repeatable-item">
+								<legend className="repeatable-item-title">
+									{variable.label} #{index + 1}
+								</legend>
+								{(variable.fields ?? []).map((field) => {
+									const inputId = `${variable.id}-${index}-${field.name}`
+									const fieldValue = item[field.name] || ''
+									const handleFieldChange = (next: string) =>
+										updateItems(
+											items.map((entry, i) => (i === index ? { ...entry, [field.name]: next } : entry))
+										)
+									return (
+										<div key={field.name} className="repeatable-field">
+											<label htmlFor={inputId} className="form-label">
+												{field.label}
+												{field.required && <span className="required">*</span>}
+											</label>
+											{field.fieldType === FieldType.TEXTAREA || field.fieldType === FieldType.RICHTEXT ? (
+												<textarea
+													id={inputId}
+													value={fieldValue}
+													onChange={(e) => handleFieldChange(e.target.value)}
+													placeholder={field.placeholder}
+													rows={3}
+													className={`form-textarea ${fieldValue.trim() ? 'input-filled' : ''}`}
+												/>
+											) : (
+												<input
+													type={SUB_FIELD_INPUT_TYPES[field.fieldType] ?? 'text'}
+													id={inputId}
+													value={fieldValue}
+													onChange={(e) => handleFieldChange(e.target.value)}
+													placeholder={field.placeholder}
+													autoComplete="off"
+													className={`form-input ${fieldValue.trim() ? 'input-filled' : ''}`}
+												/>
+											)}
+										</div>
+									)
+								})}
+								<button
+									type="button"
+									onClick={() => updateItems(items.filter((_, i) => i !== index))}
+									className="btn btn-reset btn-template-action repeatable-remove"
+								>
+									Remove
+								</button>
+							</fieldset>
+						))}
+						<button
+							type="button"
+							onClick={() => updateItems([...items, createGroupItem(variable)])}
+							disabled={!canAddItem}
+							className="btn btn-secondary btn-template-action"
+							title={canAddItem ? undefined : `Up to ${variable.maxItems} entries`}
+						>
+							<span>➕</span>
+							<span>Add {variable.label}</span>
+						</button>
+						{hasError && (
+							<div id={`${variable.id}-error`} className="field-error" role="alert">
+								<span className="error-icon">⚠️</span>
+								<span>{error}</span>
+							</div>
+						)}
+					</div>
+				)
+			}
+			default:
+				return (
+					<div className="input-wrapper">
+						<input
+							type="text"
+							id={variable.id}
+							value={value}
+							onChange={(e) => handleInputChange(variable.id, e.target.value)}
+							placeholder={variable.id === 'salutation' ? generatedSalutation : variable.placeholder}
+							required={variable.required}
 							autoComplete="off"
 							className={`form-input ${hasError ? 'input-error' : ''} ${isValid ? 'input-valid' : ''} ${isFilled ? 'input-filled' : ''}`}
 							aria-invalid={hasError}
@@ -908,6 +1457,16 @@ export function CoverLetterPage() {
 					<p className="header-tagline">Craft professional cover letters with ease</p>
 				</div>
 				<div className="header-actions">
+					<ProfileSwitcher onSwitch={handleProfileSwitch} />
+					<button
+						onClick={() => setShowApplications(!showApplications)}
+						className="btn btn-settings"
+						aria-label="Applications"
+						title="Track exported applications"
+					>
+						<span>📋</span>
+						<span>Applications</span>
+					</button>
 					<button
 						onClick={handleStartTour}
 						className="btn btn-info"
@@ -930,9 +1489,9 @@ export function CoverLetterPage() {
 
 			{showSettings && (
 				<div className="settings-panel">
-					<h3>Default Information</h3>
+					<h3>Sender Profile</h3>
 					<p className="settings-description">
-						Configure your default name, email, phone, tech stack, and e-signature. These will be used to pre-fill forms and add to your cover letters.
+						Configure the name, contact details, address, links, tech stack, and e-signature for each profile you apply under. The active profile pre-fills forms and is added to your cover letters.
 					</p>
 					<div className="settings-disclaimer">
 						<span className="settings-disclaimer-icon">🔒</span>
@@ -941,6 +1500,34 @@ export function CoverLetterPage() {
 						</p>
 					</div>
 					<div className="settings-form">
+						<div className="form-group">
+							<label htmlFor="settings-profileName" className="form-label">
+								Profile Name
+							</label>
+							<div className="settings-profile-row">
+								<input
+									type="text"
+									id="settings-profileName"
+									value={profileName}
+									onChange={(e) => setProfileName(e.target.value)}
+									autoComplete="off"
+									className="form-input"
+									placeholder="e.g., Personal, Freelance Studio"
+								/>
+								<button onClick={handleNewProfile} className="btn btn-secondary" type="button">
+									New Profile
+								</button>
+								<button
+									onClick={handleDeleteProfile}
+									disabled={profiles.length <= 1}
+									className="btn btn-reset"
+									type="button"
+									title={profiles.length <= 1 ? 'At least one profile is required' : 'Delete this profile'}
+								>
+									Delete
+								</button>
+							</div>
+						</div>
 						<div className="form-group">
 							<label htmlFor="settings-fullName" className="form-label">
 								Full Name
@@ -1020,12 +1607,63 @@ export function CoverLetterPage() {
 								Enter your commonly used technologies separated by commas. This will be pre-filled in forms.
 							</p>
 						</div>
+						<div className="settings-address-grid">
+							{SENDER_ADDRESS_FIELDS.map((field) => (
+								<div key={field.key} className={`form-group ${field.wide ? 'settings-field-wide' : ''}`}>
+									<label htmlFor={`settings-${field.key}`} className="form-label">
+										{field.label}
+									</label>
+									<input
+										type={field.type}
+										id={`settings-${field.key}`}
+										value={settingsValues[field.key] ?? ''}
+										onChange={(e) =>
+											setSettingsValues((prev) => ({
+												...prev,
+												[field.key]: e.target.value,
+											}))
+										}
+										autoComplete="off"
+										className="form-input"
+										placeholder={field.placeholder}
+									/>
+								</div>
+							))}
+						</div>
 						<div className="form-group">
 							<SignaturePad
+								key={`${activeProfile.id}-${activeDraftId}`}
 								onSignatureChange={handleSignatureChange}
 								initialSignature={signature}
 							/>
 						</div>
+						<div className="form-group">
+							<label className="form-label">Contact QR Code</label>
+							<span className="field-hint">
+								A contact card with this profile's name, email, phone, address, and links, for your portfolio or business card.
+							</span>
+							{showContactQr ? (
+								hasVCardDetails(settingsValues) ? (
+									<QrCodeView
+										text={createVCard(settingsValues)}
+										filename={`contact-${activeProfile.name || 'profile'}`}
+										label="QR code with this profile's contact card"
+									/>
+								) : (
+									<span className="field-hint">Fill in a name, email, phone, or link first.</span>
+								)
+							) : null}
+							<div>
+								<button
+									onClick={() => setShowContactQr(!showContactQr)}
+									className="btn btn-secondary btn-template-action"
+									type="button"
+									aria-expanded={showContactQr}
+								>
+									{showContactQr ? 'Hide QR Code' : 'Show QR Code'}
+								</button>
+							</div>
+						</div>
 						<div className="settings-actions">
 							<button 
 								onClick={handleResetSettings} 
@@ -1040,7 +1678,7 @@ export function CoverLetterPage() {
 									Cancel
 								</button>
 								<button onClick={handleSaveSettings} className="btn btn-primary">
-									Save Defaults
+									Save Profile
 								</button>
 							</div>
 						</div>
@@ -1048,12 +1686,96 @@ export function CoverLetterPage() {
 				</div>
 			)}
 
+			{templateEditor && (
+				<TemplateEditor
+					key={templateEditor.templateId ?? 'new'}
+					template={templates.find((t) => t.id === templateEditor.templateId) ?? null}
+					previewValues={letterValues}
+					onClose={() => setTemplateEditor(null)}
+				/>
+			)}
+
+			{showApplications && (
+				<ApplicationTracker
+					initialExpandedId={linkedApplicationId}
+					onClose={() => setShowApplications(false)}
+					onCompose={handleComposeFromApplication}
+				/>
+			)}
+
+			{showShareDialog && (
+				<ShareDialog
+					fields={templateVariables
+						.filter((v) => formValues[v.id]?.trim())
+						.map((v) => ({ id: v.id, label: v.label, value: formValues[v.id] }))}
+					personalFieldIds={Object.keys(details)}
+					templateId={activeTemplate.id}
+					// Custom and edited templates travel with the link so the receiver can import them
+					pack={isTemplateModified(activeTemplate) ? createTemplatePack([activeTemplate], variables) : undefined}
+					onClose={() => setShowShareDialog(false)}
+				/>
+			)}
+
+			{sharedTemplateLink?.pack && (
+				<TemplatePackPanel
+					initialPack={sharedTemplateLink.pack}
+					onClose={() => finishSharedTemplateImport({})}
+					onImported={finishSharedTemplateImport}
+				/>
+			)}
+
+			{showTemplatePack && (
+				<TemplatePackPanel onClose={() => setShowTemplatePack(false)} />
+			)}
+
+			{showVariableManager && (
+				<VariableManager onClose={() => setShowVariableManager(false)} />
+			)}
+
 			<div className="template-selector-section">
 				<div className="template-selector-header">
 					<span className="template-selector-icon">📝</span>
 					<label htmlFor="template-select" className="template-selector-label">
 						Select Template
 					</label>
+					<div className="template-selector-actions">
+						<button
+							type="button"
+							onClick={() => setTemplateEditor({ templateId: activeTemplate.id })}
+							className="btn btn-secondary btn-template-action"
+							title="Edit the selected template"
+						>
+							<span>✏️</span>
+							<span>Edit</span>
+						</button>
+						<button
+							type="button"
+							onClick={() => setTemplateEditor({ templateId: null })}
+							className="btn btn-secondary btn-template-action"
+							title="Create a new template"
+						>
+							<span>➕</span>
+							<span>New Template</span>
+						</button>
+						<button
+							type="button"
+							onClick={() => setShowTemplatePack(!showTemplatePack)}
+							className="btn btn-secondary btn-template-action"
+							title="Import or export template packs"
+						>
+							<span>📦</span>
+							<span>Import / Export</span>
+						</button>
+						<button
+							type="button"
+							onClick={() => setShowVariableManager(!showVariableManager)}
+							className="btn btn-secondary btn-template-action"
+							title="Manage template variables"
+						>
+							<span>🧩</span>
+							<span>Variables</span>
+						</button>
+					</div>
 				</div>
 				<select
 					id="template-select"
@@ -1072,8 +1794,59 @@ export function CoverLetterPage() {
 						{activeTemplate.description}
 					</p>
 				)}
+				<TemplateDiagnostics diagnostics={templateDiagnostics} />
 			</div>
 
+			{lockedShareHash && (
+				<form className="page-notice" onSubmit={handleUnlockShareLink}>
+					<span className="alert-icon">🔒</span>
+					<span className="alert-content">
+						<strong>This share link is protected.</strong>
+						<span className="share-link-unlock">
+							<input
+								type="password"
+								value={unlockPassphrase}
+								onChange={(e) => setUnlockPassphrase(e.target.value)}
+								placeholder="Passphrase"
+								className="form-input"
+								aria-label="Share link passphrase"
+								autoFocus
+							/>
+							<button type="submit" className="btn btn-primary" disabled={!unlockPassphrase}>
+								Open
+							</button>
+						</span>
+						{unlockError && <span role="alert">{unlockError}</span>}
+					</span>
+					<button
+						type="button"
+						onClick={() => setLockedShareHash(null)}
+						className="page-notice-dismiss"
+						aria-label="Dismiss"
+					>
+						✕
+					</button>
+				</form>
+			)}
+
+			{pageNotice && (
+				<div
+					className={`page-notice ${pageNotice.error ? 'page-notice-error' : ''}`}
+					role={pageNotice.error ? 'alert' : 'status'}
+				>
+					<span className="alert-icon">{pageNotice.error ? '⚠️' : 'ℹ️'}</span>
+					<span className="alert-content">{pageNotice.message}</span>
+					<button
+						type="button"
+						onClick={() => setPageNotice(null)}
+						className="page-notice-dismiss"
+						aria-label="Dismiss"
+					>
+						✕
+					</button>
+				</div>
+			)}
+
 			{missingRequiredFields.length > 0 && (
 				<div className="missing-fields-alert" role="alert">
 					<span className="alert-icon">⚠️</span>
@@ -1084,7 +1857,18 @@ export function CoverLetterPage() {
 				</div>
 			)}
 
+			{missingRequiredFields.length === 0 && invalidFields.length > 0 && (
+				<div className="missing-fields-alert" role="alert">
+					<span className="alert-icon">⚠️</span>
+					<div className="alert-content">
+						<strong>Fix these fields to export:</strong>
+						<span>{invalidFields.join('; ')}</span>
+					</div>
+				</div>
+			)}
+
 			<div className="cover-letter-container">
+				<DraftList onResume={handleResumeDraft} onNew={handleNewLetter} />
 				<div className="form-section">
 					<div className="form-header">
 						<h2>
@@ -1106,95 +1890,27 @@ export function CoverLetterPage() {
 						</div>
 					</div>
 					<form className="cover-letter-form">
-						{/* Application Details Section */}
-						{groupedVariables.applicationDetails.filter(v => 
-							// Show techStack if no default, or if it's in visible fields
-							v.id !== 'techStack' || !details.techStack?.trim() || groupedVariables.visible.includes(v)
-						).length > 0 && (
-							<div className="form-field-group">
-								<button
-									type="button"
-									onClick={() => toggleGroup('applicationDetails')}
-									className="field-group-header"
-									aria-expanded={expandedGroups.applicationDetails}
-								>
-									<h3 className="field-group-title">Application Details</h3>
-									<span className="field-group-toggle">
-										{expandedGroups.applicationDetails ? '−' : '+'}
-									</span>
-								</button>
-								{expandedGroups.applicationDetails && (
-									<div className="field-group-content">
-										{groupedVariables.applicationDetails
-											.filter(v => groupedVariables.visible.includes(v))
-											.map((variable) => (
-												<div key={variable.id} className="form-group">
-													<label htmlFor={variable.id} className="form-label">
-														{variable.label}
-														{variable.required && <span className="required">*</span>}
-													</label>
-													{renderInput(variable)}
-												</div>
-											))}
-									</div>
-								)}
-							</div>
-						)}
-						
-						{/* Template-Specific Fields Section */}
-						{groupedVariables.templateSpecific.length > 0 && (
-							<div className="form-field-group">
-								<button
-									type="button"
-									onClick={() => toggleGroup('templateSpecific')}
-									className="field-group-header"
-									aria-expanded={expandedGroups.templateSpecific}
-								>
-									<h3 className="field-group-title">Additional Information</h3>
-									<span className="field-group-toggle">
-										{expandedGroups.templateSpecific ? '−' : '+'}
-									</span>
-								</button>
-								{expandedGroups.templateSpecific && (
-									<div className="field-group-content">
-										{groupedVariables.templateSpecific.map((variable) => (
-											<div key={variable.id} className="form-group">
-												<label htmlFor={variable.id} className="form-label">
-													{variable.label}
-													{variable.required && <span className="required">*</span>}
-												</label>
-												{renderInput(variable)}
-											</div>
-										))}
-									</div>
-								)}
-							</div>
-						)}
-						
-						{/* Personal Info Fields (only show if no defaults) */}
-						{groupedVariables.personalInfo.filter(v => 
-							!details[v.id as keyof typeof details]?.trim()
-						).length > 0 && (
-							<div className="form-field-group">
-								<button
-									type="button"
-									onClick={() => toggleGroup('personalInfo')}
-									className="field-group-header"
-									aria-expanded={expandedGroups.personalInfo}
-								>
-									<h3 className="field-group-title">Personal Information</h3>
-									<span className="field-group-toggle">
-										{expandedGroups.personalInfo ? '−' : '+'}
-									</span>
-								</button>
-								{expandedGroups.personalInfo && (
-									<div className="field-group-content">
-										<p className="field-group-hint">
-											Configure these in Settings to auto-fill for future applications.
-										</p>
-										{groupedVariables.personalInfo
-											.filter(v => !details[v.id as keyof typeof details]?.trim())
-											.map((variable) => (
+						{groupedVariables.groups
+							.filter((group) => group.fields.length > 0)
+							.map((group) => (
+								<div key={group.id} className="form-field-group">
+									<button
+										type="button"
+										onClick={() => toggleGroup(group.id)}
+										className="field-group-header"
+										aria-expanded={expandedGroups[group.id]}
+									>
+										<h3 className="field-group-title">{group.title}</h3>
+										<span className="field-group-toggle">
+											{expandedGroups[group.id] ? '−' : '+'}
+										</span>
+									</button>
+									{expandedGroups[group.id] && (
+										<div className="field-group-content">
+											{group.hint && (
+												<p className="field-group-hint">{group.hint}</p>
+											)}
+											{group.fields.map((variable) => (
 												<div key={variable.id} className="form-group">
 													<label htmlFor={variable.id} className="form-label">
 														{variable.label}
@@ -1203,10 +1919,10 @@ export function CoverLetterPage() {
 													{renderInput(variable)}
 												</div>
 											))}
-									</div>
-								)}
-							</div>
-						)}
+										</div>
+									)}
+								</div>
+							))}
 					</form>
 				</div>
 
@@ -1221,17 +1937,26 @@ export function CoverLetterPage() {
 								onClick={handleCopyToClipboard}
 								disabled={!isFormValid}
 								className="btn btn-copy"
-								title={isFormValid ? 'Copy to clipboard' : 'Fill in all required fields first'}
+								title={isFormValid ? 'Copy to clipboard' : 'Complete required fields and fix errors first'}
 							>
 								<span>📋</span>
 								<span>Copy to Clipboard</span>
 							</button>
+							<button
+								onClick={() => setShowShareDialog(!showShareDialog)}
+								className="btn btn-secondary"
+								title="Copy a link that opens this template with the details you choose filled in"
+								aria-expanded={showShareDialog}
+							>
+								<span>🔗</span>
+								<span>Share Link</span>
+							</button>
 							<div className="export-dropdown" ref={exportDropdownRef} data-open={showExportDropdown}>
 								<button
 									onClick={handleExportPDF}
 									disabled={!isFormValid}
 									className="btn btn-primary btn-export-main"
-									title={isFormValid ? 'Export as PDF' : 'Fill in all required fields first'}
+									title={isFormValid ? 'Export as PDF' : 'Complete required fields and fix errors first'}
 								>
 									<span>📥</span>
 									<span>Export</span>
@@ -1247,7 +1972,7 @@ export function CoverLetterPage() {
 									disabled={!isFormValid}
 									className="btn btn-primary btn-export-toggle"
 									aria-label="Toggle export options"
-									title={isFormValid ? 'More export options' : 'Fill in all required fields first'}
+									title={isFormValid ? 'More export options' : 'Complete required fields and fix errors first'}
 									aria-expanded={showExportDropdown}
 								>
 									<span>▼</span>
@@ -1268,6 +1993,17 @@ export function CoverLetterPage() {
 											<span>📥</span>
 											<span>Export as PDF</span>
 										</button>
+										<label
+											className="export-dropdown-item export-dropdown-option"
+											title="Adds a QR code with your contact card to the top-right of the PDF"
+										>
+											<input
+												type="checkbox"
+												checked={includeContactQr}
+												onChange={(e) => setIncludeContactQr(e.target.checked)}
+											/>
+											<span>Contact QR code in PDF header</span>
+										</label>
 										<button
 											onClick={(e) => {
 												e.stopPropagation()
@@ -1279,6 +2015,28 @@ export function CoverLetterPage() {
 											<span>📄</span>
 											<span>Export as Text</span>
 										</button>
+										<button
+											onClick={(e) => {
+												e.stopPropagation()
+												void handleExportDOCX()
+											}}
+											disabled={!isFormValid}
+											className="export-dropdown-item"
+										>
+											<span>📃</span>
+											<span>Export as Word (.docx)</span>
+										</button>
+										<button
+											onClick={(e) => {
+												e.stopPropagation()
+												handleExportMarkdown()
+											}}
+											disabled={!isFormValid}
+											className="export-dropdown-item"
+										>
+											<span>📝</span>
+											<span>Export as Markdown (.md)</span>
+										</button>
 										<button
 											onClick={(e) => {
 												e.stopPropagation()
@@ -1290,6 +2048,17 @@ export function CoverLetterPage() {
 											<span>📝</span>
 											<span>Export as Markdown PDF</span>
 										</button>
+										<button
+											onClick={(e) => {
+												e.stopPropagation()
+												handleExportHTML()
+											}}
+											disabled={!isFormValid}
+											className="export-dropdown-item"
+										>
+											<span>🌐</span>
+											<span>Export as HTML</span>
+										</button>
 									</div>
 								)}
 							</div>
@@ -0,0 +1,103 @@
+import { useAppSelector, useAppDispatch } from '../../store/hooks'
+import { duplicateDraft, removeDraft, renameDraft } from '../../store/slices/drafts-slice'
+import { type Draft } from '../../types'
+import './draft-list.css'
+
+interface DraftListProps {
+	onResume: (draft: Draft) => void
+	onNew: () => void
+}
+
+/**
+ * Title shown for a draft: its name, else the position and company it is for
+ */
+function getDraftTitle(draft: Draft): string {
+	if (draft.name) return draft.name
+	const { position, companyName } = draft.values
+	if (position && companyName) return `${position} at ${companyName}`
+	return position || companyName || 'Untitled letter'
+}
+
+export function DraftList({ onResume, onNew }: DraftListProps) {
+	const dispatch = useAppDispatch()
+	const { drafts, activeDraftId } = useAppSelector((state) => state.drafts)
+	const { templates } = useAppSelector((state) => state.templates)
+
+	const handleRename = (draft: Draft) => {
+		const name = window.prompt('Name this draft:', getDraftTitle(draft))
+		if (name !== null) {
+			dispatch(renameDraft({ id: draft.id, name: name.trim() }))
+		}
+	}
+
+	const handleDelete = (draft: Draft) => {
+		if (window.confirm(`Delete the draft "${getDraftTitle(draft)}"?`)) {
+			dispatch(removeDraft(draft.id))
+		}
+	}
+
+	return (
+		<aside className="draft-list" aria-label="Drafts">
+			<div className="draft-list-header">
+				<h2>
+					<span>🗂️</span>
+					<span>Drafts</span>
+				</h2>
+				<button
+					type="button"
+					onClick={onNew}
+					className="btn btn-secondary btn-template-action"
+					title="Start a new letter"
+				>
+					<span>➕</span>
+					<span>New</span>
+				</button>
+			</div>
+			{drafts.length === 0 ? (
+				<p className="draft-list-empty">
+					Letters are saved here automatically as you fill them in.
+				</p>
+			) : (
+				<ul className="draft-list-items">
+					{drafts.map((draft) => (
+						<li
+							key={draft.id}
+							className={`draft-list-item ${draft.id === activeDraftId ? 'active' : ''}`}
+						>
+							<button
+								type="button"
+								onClick={() => onResume(draft)}
+								className="draft-list-resume"
+								aria-current={draft.id === activeDraftId}
+								title="Resume this draft"
+							>
+								<span className="draft-list-title">{getDraftTitle(draft)}</span>
+								<span className="draft-list-meta">
+									{templates.find((t) => t.id === draft.templateId)?.name ?? 'Deleted template'}
+									{' · '}
+									{new Date(draft.updatedAt).toLocaleString()}
+								</span>
+							</button>
+							<div className="draft-list-actions">
+								<button type="button" onClick={() => handleRename(draft)} title="Rename" aria-label="Rename draft">
+									✏️
+								</button>
+								<button
+									type="button"
+									onClick={() => dispatch(duplicateDraft(draft.id))}
+									title="Duplicate"
+									aria-label="Duplicate draft"
+								>
+									📄
+								</button>
+								<button type="button" onClick={() => handleDelete(draft)} title="Delete" aria-label="Delete draft">
+									🗑️
+								</button>
+							</div>
+						</li>
+					))}
+				</ul>
+			)}
+		</aside>
+	)
+}
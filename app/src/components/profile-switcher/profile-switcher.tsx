@@ -0,0 +1,42 @@
+import { useAppSelector, useAppDispatch } from '../../store/hooks'
+import { setActiveProfile } from '../../store/slices/basic-details-slice'
+import { type BasicDetails } from '../../types'
+import './profile-switcher.css'
+
+interface ProfileSwitcherProps {
+	// Called after switching so the form can pick up the new sender details
+	onSwitch?: (previous: BasicDetails, next: BasicDetails) => void
+}
+
+export function ProfileSwitcher({ onSwitch }: ProfileSwitcherProps) {
+	const dispatch = useAppDispatch()
+	const { profiles, activeProfileId } = useAppSelector((state) => state.basicDetails)
+
+	const handleChange = (profileId: string) => {
+		const previous = profiles.find((p) => p.id === activeProfileId)
+		const next = profiles.find((p) => p.id === profileId)
+		if (!next) return
+		dispatch(setActiveProfile(profileId))
+		if (previous && onSwitch) {
+			onSwitch(previous.details, next.details)
+		}
+	}
+
+	return (
+		<label className="profile-switcher" title="Sender profile">
+			<span className="profile-switcher-icon">👤</span>
+			<select
+				value={activeProfileId}
+				onChange={(e) => handleChange(e.target.value)}
+				className="profile-switcher-select"
+				aria-label="Sender profile"
+			>
+				{profiles.map((profile) => (
+					<option key={profile.id} value={profile.id}>
+						{profile.name}
+					</option>
+				))}
+			</select>
+		</label>
+	)
+}
@@ -0,0 +1,64 @@
+import { useMemo } from 'react'
+import { encodeQrCode, renderQrPng, renderQrSvg } from '../../utils/qr-code'
+import { downloadText } from '../../utils/text-download'
+import './qr-code.css'
+
+interface QrCodeViewProps {
+	text: string // Encoded as-is, e.g. a URL or a vCard
+	filename: string // Download name without extension
+	label: string // Describes the code for screen readers
+}
+
+export function QrCodeView({ text, filename, label }: QrCodeViewProps) {
+	const result = useMemo(() => {
+		try {
+			return { qr: encodeQrCode(text), error: null }
+		} catch (err) {
+			return { qr: null, error: err instanceof Error ? err.message : 'The QR code could not be created.' }
+		}
+	}, [text])
+
+	const svg = useMemo(() => (result.qr ? renderQrSvg(result.qr) : ''), [result])
+
+	if (!result.qr) {
+		return (
+			<div className="field-error" role="alert">
+				<span className="error-icon">⚠️</span>
+				<span>{result.error}</span>
+			</div>
+		)
+	}
+
+	const qr = result.qr
+
+	const handleDownloadPng = () => {
+		const link = document.createElement('a')
+		link.href = renderQrPng(qr)
+		link.download = `${filename}.png`
+		document.body.appendChild(link)
+		link.click()
+		document.body.removeChild(link)
+	}
+
+	return (
+		<div className="qr-code">
+			<img
+				className="qr-code-image"
+				src={`data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`}
+				alt={label}
+			/>
+			<div className="qr-code-actions">
+				<button
+					onClick={() => downloadText(svg, `${filename}.svg`, 'image/svg+xml')}
+					className="btn btn-secondary btn-template-action"
+					type="button"
+				>
+					Download SVG
+				</button>
+				<button onClick={handleDownloadPng} className="btn btn-secondary btn-template-action" type="button">
+					Download PNG
+				</button>
+			</div>
+		</div>
+	)
+}
@@ -0,0 +1,203 @@
+import { useState } from 'react'
+import { encodeShareLink } from '../../utils/share-link'
+import { QrCodeView } from '../qr-code/qr-code'
+import { type TemplatePack } from '../../types'
+import './share-dialog.css'
+
+// Shorter passphrases are too easy to guess offline
+const MIN_PASSPHRASE_LENGTH = 8
+
+interface ShareField {
+	id: string
+	label: string
+	value: string
+}
+
+interface ShareDialogProps {
+	fields: ShareField[] // Filled-in fields that can be shared
+	personalFieldIds: string[] // Sender details; left out unless ticked
+	templateId: string
+	pack?: TemplatePack // Sent along when the template is custom or edited
+	onClose: () => void
+}
+
+export function ShareDialog({ fields, personalFieldIds, templateId, pack, onClose }: ShareDialogProps) {
+	const [selectedIds, setSelectedIds] = useState<string[]>(() =>
+		fields.filter((f) => !personalFieldIds.includes(f.id)).map((f) => f.id)
+	)
+	const [encrypt, setEncrypt] = useState(false)
+	const [passphrase, setPassphrase] = useState('')
+	const [copied, setCopied] = useState(false)
+	const [error, setError] = useState<string | null>(null)
+	const [qrUrl, setQrUrl] = useState<string | null>(null) // Link shown as a QR code; cleared when the options change
+
+	const passphraseError =
+		encrypt && passphrase.length < MIN_PASSPHRASE_LENGTH
+			? `Use at least ${MIN_PASSPHRASE_LENGTH} characters`
+			: null
+
+	const toggleSelected = (id: string) => {
+		setQrUrl(null)
+		setSelectedIds((prev) =>
+			prev.includes(id) ? prev.filter((selected) => selected !== id) : [...prev, id]
+		)
+	}
+
+	const buildLink = () => {
+		const values = Object.fromEntries(
+			fields.filter((f) => selectedIds.includes(f.id)).map((f) => [f.id, f.value])
+		)
+		return encodeShareLink({ templateId, values, pack }, encrypt ? passphrase : undefined)
+	}
+
+	const handleCopy = async () => {
+		if (passphraseError) return
+		try {
+			const url = await buildLink()
+			await navigator.clipboard.writeText(url)
+			setError(null)
+			setCopied(true)
+			setTimeout(() => setCopied(false), 2000)
+		} catch (err) {
+			console.error('Failed to copy share link:', err)
+			setError('The link could not be copied. Check that the page is allowed to use the clipboard.')
+		}
+	}
+
+	const handleShowQrCode = async () => {
+		if (passphraseError) return
+		try {
+			setQrUrl(await buildLink())
+			setError(null)
+		} catch (err) {
+			console.error('Failed to create share link:', err)
+			setError('The link could not be created.')
+		}
+	}
+
+	return (
+		<div className="settings-panel share-dialog">
+			<h3>Share Link</h3>
+			<p className="settings-description">
+				Choose which details the link carries. Your sender details are left out by default, since links end up in browser history and chat logs.
+			</p>
+
+			{fields.length === 0 ? (
+				<p className="share-dialog-empty">
+					No fields are filled in yet. The link will open the template with an empty form.
+				</p>
+			) : (
+				<>
+					<ul className="share-dialog-fields">
+						{fields.map((field) => (
+							<li key={field.id}>
+								<label className="share-dialog-field">
+									<input
+										type="checkbox"
+										checked={selectedIds.includes(field.id)}
+										onChange={() => toggleSelected(field.id)}
+									/>
+									<span className="share-dialog-field-label">{field.label}</span>
+									{personalFieldIds.includes(field.id) && (
+										<span className="share-dialog-tag">Personal</span>
+									)}
+									<span className="share-dialog-field-value">{field.value}</span>
+								</label>
+							</li>
+						))}
+					</ul>
+					<div className="share-dialog-select">
+						<button
+							type="button"
+							onClick={() => {
+								setQrUrl(null)
+								setSelectedIds(selectedIds.length === fields.length ? [] : fields.map((f) => f.id))
+							}}
+							className="btn btn-secondary"
+						>
+							{selectedIds.length === fields.length ? 'Select None' : 'Select All'}
+						</button>
+					</div>
+				</>
+			)}
+
+			<div className="form-group">
+				<label className="share-dialog-field">
+					<input
+						type="checkbox"
+						checked={encrypt}
+						onChange={(e) => {
+							setQrUrl(null)
+							setEncrypt(e.target.checked)
+						}}
+					/>
+					<span className="share-dialog-field-label">Protect with a passphrase</span>
+				</label>
+				{encrypt && (
+					<>
+						<input
+							type="password"
+							value={passphrase}
+							onChange={(e) => {
+								setQrUrl(null)
+								setPassphrase(e.target.value)
+							}}
+							placeholder="Passphrase"
+							className="form-input"
+							aria-label="Passphrase"
+							autoComplete="new-password"
+						/>
+						{passphraseError ? (
+							<span className="field-hint">{passphraseError}</span>
+						) : (
+							<span className="field-hint">
+								The link is encrypted in your browser. Send the passphrase separately from the link.
+							</span>
+						)}
+					</>
+				)}
+			</div>
+
+			{qrUrl && (
+				<div className="form-group">
+					<QrCodeView text={qrUrl} filename="share-link-qr" label="QR code for the share link" />
+					<span className="field-hint">Scan it with a phone camera to open the letter there.</span>
+				</div>
+			)}
+
+			{error && (
+				<div className="field-error" role="alert">
+					<span className="error-icon">⚠️</span>
+					<span>{error}</span>
+				</div>
+			)}
+
+			<div className="settings-actions">
+				<span />
+				<div className="settings-actions-right">
+					<button onClick={onClose} className="btn btn-secondary" type="button">
+						Close
+					</button>
+					<button
+						onClick={handleShowQrCode}
+						disabled={Boolean(passphraseError)}
+						className="btn btn-secondary"
+						type="button"
+					>
+						<span>▦</span>
+						<span>Show QR Code</span>
+					</button>
+					<button
+						onClick={handleCopy}
+						disabled={Boolean(passphraseError)}
+						className="btn btn-primary"
+						type="button"
+					>
+						<span>{copied ? '✓' : '🔗'}</span>
+						<span>{copied ? 'Link Copied!' : 'Copy Link'}</span>
+					</button>
+				</div>
+			</div>
+		</div>
+	)
+}
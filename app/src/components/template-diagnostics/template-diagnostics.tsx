@@ -0,0 +1,43 @@
+import { type TemplateDiagnostic, DiagnosticSeverity } from '../../types'
+import './template-diagnostics.css'
+
+interface TemplateDiagnosticsProps {
+	diagnostics: TemplateDiagnostic[]
+}
+
+export function TemplateDiagnostics({ diagnostics }: TemplateDiagnosticsProps) {
+	if (diagnostics.length === 0) return null
+
+	const errorCount = diagnostics.filter((d) => d.severity === DiagnosticSeverity.ERROR).length
+	const warningCount = diagnostics.length - errorCount
+
+	return (
+		<div className="template-diagnostics" role="status">
+			<div className="template-diagnostics-summary">
+				<span>🔍</span>
+				<span>
+					Template check: {errorCount} {errorCount === 1 ? 'error' : 'errors'}, {warningCount}{' '}
+					{warningCount === 1 ? 'warning' : 'warnings'}
+				</span>
+			</div>
+			<ul className="template-diagnostics-list">
+				{diagnostics.map((diagnostic, index) => (
+					<li
+						key={`${diagnostic.code}-${diagnostic.variable ?? ''}-${index}`}
+						className={`template-diagnostic template-diagnostic-${diagnostic.severity}`}
+					>
+						<span className="template-diagnostic-icon">
+							{diagnostic.severity === DiagnosticSeverity.ERROR ? '⛔' : '⚠️'}
+						</span>
+						<span className="template-diagnostic-message">
+							{diagnostic.line !== undefined && (
+								<span className="template-diagnostic-line">Line {diagnostic.line}: </span>
+							)}
+							{diagnostic.message}
+						</span>
+					</li>
+				))}
+			</ul>
+		</div>
+	)
+}
@@ -0,0 +1,246 @@
+import { useState, useMemo, useRef } from 'react'
+import { useAppSelector, useAppDispatch } from '../../store/hooks'
+import {
+	addTemplate,
+	updateTemplate,
+	removeTemplate,
+	restoreTemplate,
+	setActiveTemplate,
+	isBuiltInTemplate,
+	isTemplateModified,
+} from '../../store/slices/templates-slice'
+import { processTemplate, extractVariables } from '../../utils/template-processor'
+import { lintTemplate } from '../../utils/template-linter'
+import { slugify, createUniqueId } from '../../utils/unique-id'
+import { type Template, type TemplateVariable, DiagnosticSeverity, FieldType } from '../../types'
+import { TemplateDiagnostics } from '../template-diagnostics/template-diagnostics'
+import './template-editor.css'
+
+interface TemplateEditorProps {
+	template: Template | null // null when creating a new template
+	previewValues: Record<string, string>
+	onClose: () => void
+}
+
+export function TemplateEditor({ template, previewValues, onClose }: TemplateEditorProps) {
+	const dispatch = useAppDispatch()
+	const { variables } = useAppSelector((state) => state.templateVariables)
+	const { templates } = useAppSelector((state) => state.templates)
+
+	const [name, setName] = useState(template?.name ?? '')
+	const [description, setDescription] = useState(template?.description ?? '')
+	const [content, setContent] = useState(template?.content ?? '')
+	const contentRef = useRef<HTMLTextAreaElement>(null)
+
+	// Variables are derived from the tokens used in the content
+	const derivedVariableIds = useMemo(() => {
+		const names = extractVariables(content, variables)
+		return variables.filter((v) => names.includes(v.name)).map((v) => v.id)
+	}, [content, variables])
+
+	const derivedVariables = useMemo(
+		() => variables.filter((v) => derivedVariableIds.includes(v.id)),
+		[variables, derivedVariableIds]
+	)
+
+	const diagnostics = useMemo(
+		() => lintTemplate({ content, variables: derivedVariableIds }, variables),
+		[content, derivedVariableIds, variables]
+	)
+
+	const preview = useMemo(
+		() => processTemplate(content, derivedVariables, previewValues),
+		[content, derivedVariables, previewValues]
+	)
+
+	const hasErrors = diagnostics.some((d) => d.severity === DiagnosticSeverity.ERROR)
+	const canSave = name.trim().length > 0 && content.trim().length > 0 && !hasErrors
+
+	const handleInsertToken = (variable: TemplateVariable) => {
+		// Repeatable groups get a loop with one token per sub-field
+		const token = variable.fieldType === FieldType.REPEATABLE
+			? `{{#each ${variable.name}}}\n- ${(variable.fields ?? []).map((field) => `{{${field.name}}}`).join(', ')}\n{{/each}}\n`
+			: `{{${variable.name}}}`
+		const textarea = contentRef.current
+		const start = textarea?.selectionStart ?? content.length
+		const end = textarea?.selectionEnd ?? content.length
+
+		setContent(content.slice(0, start) + token + content.slice(end))
+
+		// Restore the cursor after the inserted token
+		requestAnimationFrame(() => {
+			if (!textarea) return
+			textarea.focus()
+			textarea.setSelectionRange(start + token.length, start + token.length)
+		})
+	}
+
+	const handleSave = () => {
+		if (!canSave) return
+
+		if (template) {
+			dispatch(updateTemplate({
+				id: template.id,
+				template: {
+					name: name.trim(),
+					description: description.trim() || undefined,
+					content,
+					variables: derivedVariableIds,
+				},
+			}))
+		} else {
+			const now = new Date().toISOString()
+			const id = createUniqueId(slugify(name) || 'custom-template', templates.map((t) => t.id))
+			dispatch(addTemplate({
+				id,
+				name: name.trim(),
+				description: description.trim() || undefined,
+				content,
+				variables: derivedVariableIds,
+				createdAt: now,
+				updatedAt: now,
+			}))
+			dispatch(setActiveTemplate(id))
+		}
+
+		onClose()
+	}
+
+	const isBuiltIn = template ? isBuiltInTemplate(template.id) : false
+
+	const handleRestore = () => {
+		if (!template) return
+		if (window.confirm(`Restore "${template.name}" to its original content? Your edits will be lost.`)) {
+			dispatch(restoreTemplate(template.id))
+			onClose()
+		}
+	}
+
+	const handleDelete = () => {
+		if (!template) return
+		if (templates.length <= 1) {
+			window.alert('At least one template must remain.')
+			return
+		}
+		if (window.confirm(`Delete the template "${template.name}"? This cannot be undone.`)) {
+			dispatch(removeTemplate(template.id))
+			onClose()
+		}
+	}
+
+	return (
+		<div className="settings-panel template-editor">
+			<h3>
+				{template ? 'Edit Template' : 'New Template'}
+				{isBuiltIn && <span className="template-editor-badge">Built-in</span>}
+			</h3>
+			<p className="settings-description">
+				Write your letter and insert variables where form values should appear. The fields shown in the form are taken from the variables used in the content.
+			</p>
+			<div className="template-editor-layout">
+				<div className="settings-form">
+					<div className="form-group">
+						<label htmlFor="template-editor-name" className="form-label">
+							Name<span className="required">*</span>
+						</label>
+						<input
+							type="text"
+							id="template-editor-name"
+							value={name}
+							onChange={(e) => setName(e.target.value)}
+							autoComplete="off"
+							className="form-input"
+							placeholder="e.g., Startup Application"
+						/>
+					</div>
+					<div className="form-group">
+						<label htmlFor="template-editor-description" className="form-label">
+							Description
+						</label>
+						<input
+							type="text"
+							id="template-editor-description"
+							value={description}
+							onChange={(e) => setDescription(e.target.value)}
+							autoComplete="off"
+							className="form-input"
+							placeholder="When should this template be used?"
+						/>
+					</div>
+					<div className="form-group">
+						<span className="form-label">Insert Variable</span>
+						<div className="template-editor-tokens">
+							{variables.map((variable) => (
+								<button
+									key={variable.id}
+									type="button"
+									onClick={() => handleInsertToken(variable)}
+									className={`template-editor-token ${derivedVariableIds.includes(variable.id) ? 'template-editor-token-used' : ''}`}
+									title={`Insert {{${variable.name}}}`}
+								>
+									{variable.label}
+								</button>
+							))}
+						</div>
+					</div>
+					<div className="form-group">
+						<label htmlFor="template-editor-content" className="form-label">
+							Content<span className="required">*</span>
+						</label>
+						<textarea
+							id="template-editor-content"
+							ref={contentRef}
+							value={content}
+							onChange={(e) => setContent(e.target.value)}
+							autoComplete="off"
+							spellCheck={false}
+							className="form-textarea template-editor-content"
+							rows={16}
+							placeholder={'Dear Hiring Manager,\n\nI am applying for the {{position}} position at {{companyName}}...'}
+						/>
+					</div>
+					<TemplateDiagnostics diagnostics={diagnostics} />
+				</div>
+				<div className="template-editor-preview">
+					<span className="form-label">Live Preview</span>
+					<pre className="preview-text template-editor-preview-text">{preview}</pre>
+				</div>
+			</div>
+			<div className="settings-actions">
+				{template && isBuiltIn && (
+					<button
+						onClick={handleRestore}
+						disabled={!isTemplateModified(template)}
+						className="btn btn-reset"
+						type="button"
+						title="Built-in templates cannot be deleted, but can be restored to their original content"
+					>
+						<span>↩️</span>
+						<span>Restore Default</span>
+					</button>
+				)}
+				{template && !isBuiltIn && (
+					<button onClick={handleDelete} className="btn btn-reset" type="button">
+						<span>🗑️</span>
+						<span>Delete Template</span>
+					</button>
+				)}
+				{!template && <span />}
+				<div className="settings-actions-right">
+					<button onClick={onClose} className="btn btn-secondary" type="button">
+						Cancel
+					</button>
+					<button
+						onClick={handleSave}
+						disabled={!canSave}
+						className="btn btn-primary"
+						type="button"
+						title={hasErrors ? 'Fix the template errors before saving' : undefined}
+					>
+						{template ? 'Save Template' : 'Create Template'}
+					</button>
+				</div>
+			</div>
+		</div>
+	)
+}
@@ -0,0 +1,280 @@
+import { useState } from 'react'
+import { useAppSelector, useAppDispatch } from '../../store/hooks'
+import {
+	addTemplate,
+	updateTemplate,
+	isBuiltInTemplate,
+} from '../../store/slices/templates-slice'
+import { addVariable } from '../../store/slices/template-variables-slice'
+import {
+	createTemplatePack,
+	parseTemplatePack,
+	planTemplatePackImport,
+	resolveTemplatePackImport,
+	type TemplateImportItem,
+} from '../../utils/template-pack'
+import { downloadText } from '../../utils/text-download'
+import { encodeShareLink } from '../../utils/share-link'
+import { type TemplatePack, ImportConflictStrategy } from '../../types'
+import './template-pack-panel.css'
+
+interface TemplatePackPanelProps {
+	// Pack opened from a share link; shown for review instead of the export section
+	initialPack?: TemplatePack
+	onClose: () => void
+	// Called after importing with the id each pack template has locally
+	onImported?: (templateIds: Record<string, string>) => void
+}
+
+export function TemplatePackPanel({ initialPack, onClose, onImported }: TemplatePackPanelProps) {
+	const dispatch = useAppDispatch()
+	const { variables } = useAppSelector((state) => state.templateVariables)
+	const { templates, activeTemplateId } = useAppSelector((state) => state.templates)
+
+	const [selectedIds, setSelectedIds] = useState<string[]>(
+		activeTemplateId ? [activeTemplateId] : []
+	)
+	const [pack, setPack] = useState<TemplatePack | null>(initialPack ?? null)
+	const [importItems, setImportItems] = useState<TemplateImportItem[]>(() =>
+		initialPack ? planTemplatePackImport(initialPack, templates, isBuiltInTemplate) : []
+	)
+	const [strategies, setStrategies] = useState<Record<string, ImportConflictStrategy>>({})
+	const [importError, setImportError] = useState<string | null>(null)
+	const [importSummary, setImportSummary] = useState<string | null>(null)
+	const [shareLinkCopied, setShareLinkCopied] = useState(false)
+
+	const toggleSelected = (id: string) => {
+		setSelectedIds((prev) =>
+			prev.includes(id) ? prev.filter((selected) => selected !== id) : [...prev, id]
+		)
+	}
+
+	const handleExport = () => {
+		const selected = templates.filter((t) => selectedIds.includes(t.id))
+		if (selected.length === 0) return
+		const exported = createTemplatePack(selected, variables)
+		const filename = selected.length === 1
+			? `lettercraft-template-${selected[0].id}.json`
+			: `lettercraft-templates-${Date.now()}.json`
+		downloadText(JSON.stringify(exported, null, 2), filename, 'application/json')
+	}
+
+	const handleCopyShareLink = async () => {
+		const selected = templates.filter((t) => selectedIds.includes(t.id))
+		if (selected.length === 0) return
+		try {
+			const url = await encodeShareLink({
+				templateId: selected[0].id,
+				values: {},
+				pack: createTemplatePack(selected, variables),
+			})
+			await navigator.clipboard.writeText(url)
+			setShareLinkCopied(true)
+			setTimeout(() => setShareLinkCopied(false), 2000)
+		} catch (err) {
+			console.error('Failed to copy share link:', err)
+		}
+	}
+
+	const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+		const file = e.target.files?.[0]
+		e.target.value = ''
+		setImportSummary(null)
+		if (!file) return
+
+		try {
+			const parsed = parseTemplatePack(await file.text())
+			setPack(parsed)
+			setImportItems(planTemplatePackImport(parsed, templates, isBuiltInTemplate))
+			setStrategies({})
+			setImportError(null)
+		} catch (err) {
+			setPack(null)
+			setImportItems([])
+			setImportError(err instanceof Error ? err.message : 'Failed to read the template pack')
+		}
+	}
+
+	const handleImport = () => {
+		if (!pack) return
+		const result = resolveTemplatePackImport(pack, templates, variables, strategies)
+
+		result.variablesToAdd.forEach((variable) => dispatch(addVariable(variable)))
+		result.added.forEach((template) => dispatch(addTemplate(template)))
+		result.replaced.forEach((template) =>
+			dispatch(updateTemplate({ id: template.id, template }))
+		)
+
+		const parts = [
+			`${result.added.length} added`,
+			`${result.replaced.length} replaced`,
+			`${result.skipped.length} skipped`,
+		]
+		if (result.variablesToAdd.length > 0) {
+			parts.push(`${result.variablesToAdd.length} new variables`)
+		}
+		if (result.variablesKept.length > 0) {
+			parts.push(
+				`kept your existing definition of ${result.variablesKept.map((v) => v.name).join(', ')}`
+			)
+		}
+		setImportSummary(`Import complete: ${parts.join(', ')}.`)
+		setPack(null)
+		setImportItems([])
+		onImported?.(result.templateIds)
+	}
+
+	return (
+		<div className="settings-panel template-pack-panel">
+			<h3>{initialPack ? 'Shared Templates' : 'Import / Export Templates'}</h3>
+			<p className="settings-description">
+				{initialPack
+					? 'The link you opened contains templates. Review them below; nothing is added to your templates until you import them.'
+					: 'Share templates as a JSON template pack or a link. Packs include the variable definitions the templates need.'}
+			</p>
+
+			{!initialPack && (
+				<div className="template-pack-section">
+					<h4 className="template-pack-heading">Export</h4>
+					<div className="template-pack-list">
+						{templates.map((template) => (
+							<label key={template.id} className="template-pack-item">
+								<input
+									type="checkbox"
+									checked={selectedIds.includes(template.id)}
+									onChange={() => toggleSelected(template.id)}
+								/>
+								<span>{template.name}</span>
+								{isBuiltInTemplate(template.id) && (
+									<span className="template-pack-tag">Built-in</span>
+								)}
+							</label>
+						))}
+					</div>
+					<div className="template-pack-actions">
+						<button
+							type="button"
+							onClick={() =>
+								setSelectedIds(
+									selectedIds.length === templates.length ? [] : templates.map((t) => t.id)
+								)
+							}
+							className="btn btn-secondary"
+						>
+							{selectedIds.length === templates.length ? 'Select None' : 'Select All'}
+						</button>
+						<button
+							type="button"
+							onClick={handleExport}
+							disabled={selectedIds.length === 0}
+							className="btn btn-primary"
+						>
+							<span>📤</span>
+							<span>Export {selectedIds.length} {selectedIds.length === 1 ? 'Template' : 'Templates'}</span>
+						</button>
+						<button
+							type="button"
+							onClick={handleCopyShareLink}
+							disabled={selectedIds.length === 0}
+							className="btn btn-primary"
+							title="Copy a link that lets others import the selected templates"
+						>
+							<span>{shareLinkCopied ? '✓' : '🔗'}</span>
+							<span>{shareLinkCopied ? 'Link Copied!' : 'Copy Share Link'}</span>
+						</button>
+					</div>
+				</div>
+			)}
+
+			<div className="template-pack-section">
+				<h4 className="template-pack-heading">Import</h4>
+				{!initialPack && (
+					<input
+						type="file"
+						accept=".json,application/json"
+						onChange={handleFileChange}
+						className="template-pack-file"
+						aria-label="Choose a template pack file"
+					/>
+				)}
+				{importError && (
+					<div className="field-error" role="alert">
+						<span className="error-icon">⚠️</span>
+						<span>{importError}</span>
+					</div>
+				)}
+				{importSummary && <p className="template-pack-summary">{importSummary}</p>}
+				{importItems.length > 0 && (
+					<>
+						<ul className="template-pack-list">
+							{importItems.map(({ template, conflict }) => (
+								<li key={template.id} className="template-pack-item">
+									<span>{template.name}</span>
+									{conflict === 'none' ? (
+										<span className="template-pack-tag">New</span>
+									) : (
+										<>
+											<span className="template-pack-tag template-pack-tag-conflict">
+												{conflict === 'built-in'
+													? `Same id as built-in "${template.id}"`
+													: `Same id as "${template.id}"`}
+											</span>
+											<select
+												value={strategies[template.id] ?? ImportConflictStrategy.COPY}
+												onChange={(e) =>
+													setStrategies((prev) => ({
+														...prev,
+														[template.id]: e.target.value as ImportConflictStrategy,
+													}))
+												}
+												className="template-pack-strategy"
+												aria-label={`How to import ${template.name}`}
+											>
+												<option value={ImportConflictStrategy.COPY}>Import as copy</option>
+												<option value={ImportConflictStrategy.REPLACE}>Replace existing</option>
+												<option value={ImportConflictStrategy.SKIP}>Skip</option>
+											</select>
+										</>
+									)}
+									<details className="template-pack-preview" open={Boolean(initialPack)}>
+										<summary>Preview</summary>
+										{template.description && (
+											<p className="template-pack-preview-description">{template.description}</p>
+										)}
+										<pre className="template-pack-preview-content">{template.content}</pre>
+										<p className="template-pack-preview-fields">
+											Fields:{' '}
+											{template.variables
+												.map(
+													(id) =>
+														pack?.variables.find((v) => v.id === id)?.label ??
+														variables.find((v) => v.id === id)?.label ??
+														id
+												)
+												.join(', ')}
+										</p>
+									</details>
+								</li>
+							))}
+						</ul>
+						<div className="template-pack-actions">
+							<button type="button" onClick={handleImport} className="btn btn-primary">
+								<span>📥</span>
+								<span>Import {importItems.length} {importItems.length === 1 ? 'Template' : 'Templates'}</span>
+							</button>
+						</div>
+					</>
+				)}
+			</div>
+
+			<div className="settings-actions">
+				<span />
+				<div className="settings-actions-right">
+					<button onClick={onClose} className="btn btn-secondary" type="button">
+						{initialPack && importItems.length > 0 ? "Don't Import" : 'Close'}
+					</button>
+				</div>
+			</div>
+		</div>
+	)
+}
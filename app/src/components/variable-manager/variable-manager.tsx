@@ -0,0 +1,727 @@
+import { useState, useMemo } from 'react'
+import { useAppSelector, useAppDispatch } from '../../store/hooks'
+import {
+	addVariable,
+	updateVariable,
+	removeVariable,
+	isBuiltInVariable,
+} from '../../store/slices/template-variables-slice'
+import { findTemplatesUsingVariable } from '../../utils/template-linter'
+import { toCamelCase, createUniqueId } from '../../utils/unique-id'
+import {
+	type TemplateVariable,
+	type ValidationRules,
+	type SubFieldDefinition,
+	FieldType,
+	type FieldGroup,
+} from '../../types'
+import { FIELD_GROUPS, DEFAULT_FIELD_GROUP, getVariableGroup } from '../../constants/field-groups'
+import './variable-manager.css'
+
+interface VariableManagerProps {
+	onClose: () => void
+}
+
+const FIELD_TYPE_LABELS: Record<FieldType, string> = {
+	[FieldType.TEXT]: 'Text',
+	[FieldType.EMAIL]: 'Email',
+	[FieldType.PHONE]: 'Phone',
+	[FieldType.DATE]: 'Date',
+	[FieldType.NUMBER]: 'Number',
+	[FieldType.TEXTAREA]: 'Long Text',
+	[FieldType.MULTISELECT]: 'Multi-select',
+	[FieldType.SELECT]: 'Select',
+	[FieldType.URL]: 'URL',
+	[FieldType.CHECKBOX]: 'Checkbox',
+	[FieldType.CURRENCY]: 'Currency',
+	[FieldType.RICHTEXT]: 'Rich Text',
+	[FieldType.REPEATABLE]: 'Repeating Group',
+}
+
+const OPTION_FIELD_TYPES: FieldType[] = [FieldType.MULTISELECT, FieldType.SELECT]
+
+// Field types that have no configurable validation rules
+const RULELESS_FIELD_TYPES: FieldType[] = [FieldType.CHECKBOX, FieldType.REPEATABLE]
+
+interface VariableFormValues {
+	label: string
+	name: string
+	fieldType: FieldType
+	placeholder: string
+	required: boolean
+	defaultValue: string
+	options: string // One option per line
+	currency: string
+	fields: string // One sub-field per line: "Label | type", "*" after the label marks it required
+	maxItems: string
+	group: FieldGroup
+	order: string
+	minLength: string
+	maxLength: string
+	pattern: string
+	patternMessage: string
+	allowedValues: string // One value per line
+	minDate: string
+	maxDate: string
+}
+
+const RULE_DATE_REGEX = /^(today|\d{4}-\d{2}-\d{2})$/
+
+const EMPTY_FORM: VariableFormValues = {
+	label: '',
+	name: '',
+	fieldType: FieldType.TEXT,
+	placeholder: '',
+	required: false,
+	defaultValue: '',
+	options: '',
+	currency: '',
+	fields: '',
+	maxItems: '',
+	group: DEFAULT_FIELD_GROUP,
+	order: '',
+	minLength: '',
+	maxLength: '',
+	pattern: '',
+	patternMessage: '',
+	allowedValues: '',
+	minDate: '',
+	maxDate: '',
+}
+
+function toFormValues(variable: TemplateVariable): VariableFormValues {
+	const rules = variable.validation ?? {}
+	return {
+		label: variable.label,
+		name: variable.name,
+		fieldType: variable.fieldType,
+		placeholder: variable.placeholder ?? '',
+		required: !!variable.required,
+		defaultValue: variable.defaultValue ?? '',
+		options: (variable.options ?? []).join('\n'),
+		currency: variable.currency ?? '',
+		fields: (variable.fields ?? [])
+			.map((field) => `${field.label}${field.required ? '*' : ''} | ${field.fieldType}`)
+			.join('\n'),
+		maxItems: variable.maxItems !== undefined ? String(variable.maxItems) : '',
+		group: getVariableGroup(variable),
+		order: variable.order !== undefined ? String(variable.order) : '',
+		minLength: rules.minLength !== undefined ? String(rules.minLength) : '',
+		maxLength: rules.maxLength !== undefined ? String(rules.maxLength) : '',
+		pattern: rules.pattern ?? '',
+		patternMessage: rules.patternMessage ?? '',
+		allowedValues: (rules.allowedValues ?? []).join('\n'),
+		minDate: rules.minDate ?? '',
+		maxDate: rules.maxDate ?? '',
+	}
+}
+
+function splitLines(value: string): string[] {
+	return value
+		.split('\n')
+		.map((line) => line.trim())
+		.filter(Boolean)
+}
+
+interface ParsedSubFields {
+	fields: SubFieldDefinition[]
+	invalidLabel: string | null // First line without a name or with an unknown type
+}
+
+function isFieldType(value: string): value is FieldType {
+	return (Object.values(FieldType) as string[]).includes(value)
+}
+
+/**
+ * Parses the sub-field lines of a repeatable group. Token names come from the
+ * labels; existing sub-fields keep their name when the label is unchanged.
+ */
+function parseSubFields(lines: string, existing: SubFieldDefinition[] = []): ParsedSubFields {
+	let invalidLabel: string | null = null
+	const fields = splitLines(lines).map((line) => {
+		const [labelPart, typePart = FieldType.TEXT] = line.split('|').map((part) => part.trim())
+		const required = labelPart.endsWith('*')
+		const label = required ? labelPart.slice(0, -1).trim() : labelPart
+		const match = existing.find((field) => field.label === label)
+		const name = match?.name ?? toCamelCase(label)
+		if (invalidLabel === null && (!name || !isFieldType(typePart))) {
+			invalidLabel = label
+		}
+		return {
+			name,
+			label,
+			fieldType: isFieldType(typePart) ? typePart : FieldType.TEXT,
+			required: required || undefined,
+		}
+	})
+	return { fields, invalidLabel }
+}
+
+/**
+ * Builds validation rules from the form, keeping only the rules that apply to the field type
+ */
+function toValidationRules(form: VariableFormValues): ValidationRules | undefined {
+	const rules: ValidationRules = {}
+	const isDate = form.fieldType === FieldType.DATE
+	const isMultiselect = form.fieldType === FieldType.MULTISELECT
+
+	if (RULELESS_FIELD_TYPES.includes(form.fieldType)) return undefined
+
+	if (isDate) {
+		if (form.minDate.trim()) rules.minDate = form.minDate.trim()
+		if (form.maxDate.trim()) rules.maxDate = form.maxDate.trim()
+	} else if (!isMultiselect) {
+		if (form.minLength.trim()) rules.minLength = Number(form.minLength)
+		if (form.maxLength.trim()) rules.maxLength = Number(form.maxLength)
+		if (form.pattern.trim()) {
+			rules.pattern = form.pattern.trim()
+			if (form.patternMessage.trim()) rules.patternMessage = form.patternMessage.trim()
+		}
+	}
+	if (!isDate) {
+		const allowedValues = splitLines(form.allowedValues)
+		if (allowedValues.length > 0) rules.allowedValues = allowedValues
+	}
+
+	return Object.keys(rules).length > 0 ? rules : undefined
+}
+
+export function VariableManager({ onClose }: VariableManagerProps) {
+	const dispatch = useAppDispatch()
+	const { variables } = useAppSelector((state) => state.templateVariables)
+	const { templates } = useAppSelector((state) => state.templates)
+
+	// null when no form is open; id is null when creating a new variable
+	const [editing, setEditing] = useState<{ id: string | null } | null>(null)
+	const [form, setForm] = useState<VariableFormValues>(EMPTY_FORM)
+
+	const usage = useMemo(() => {
+		const result: Record<string, string[]> = {}
+		variables.forEach((variable) => {
+			result[variable.id] = findTemplatesUsingVariable(variable, templates).map((t) => t.name)
+		})
+		return result
+	}, [variables, templates])
+
+	const isNew = editing?.id === null
+	const nameError = useMemo(() => {
+		if (!editing || !isNew) return null
+		if (!form.name) return 'Name is required'
+		if (!/^[A-Za-z_]\w*$/.test(form.name)) {
+			return 'Use letters, numbers and underscores only, starting with a letter'
+		}
+		if (variables.some((v) => v.id === form.name || v.name === form.name)) {
+			return 'A variable with this name already exists'
+		}
+		return null
+	}, [editing, isNew, form.name, variables])
+
+	const rulesError = useMemo(() => {
+		if (!editing) return null
+		if (form.pattern.trim()) {
+			try {
+				new RegExp(form.pattern.trim())
+			} catch {
+				return 'The pattern is not a valid regular expression'
+			}
+		}
+		if (
+			form.minLength.trim() &&
+			form.maxLength.trim() &&
+			Number(form.minLength) > Number(form.maxLength)
+		) {
+			return 'Minimum length cannot be greater than maximum length'
+		}
+		if ([form.minDate, form.maxDate].some((date) => date.trim() && !RULE_DATE_REGEX.test(date.trim()))) {
+			return 'Dates must be YYYY-MM-DD or "today"'
+		}
+		return null
+	}, [editing, form.pattern, form.minLength, form.maxLength, form.minDate, form.maxDate])
+
+	const existingSubFields = useMemo(
+		() => variables.find((v) => v.id === editing?.id)?.fields ?? [],
+		[variables, editing]
+	)
+	const { fields: subFields, invalidLabel: invalidSubFieldLabel } = useMemo(
+		() => parseSubFields(form.fields, existingSubFields),
+		[form.fields, existingSubFields]
+	)
+	const subFieldsError = useMemo(() => {
+		if (!editing || form.fieldType !== FieldType.REPEATABLE) return null
+		if (subFields.length === 0) return 'Add at least one sub-field'
+		if (invalidSubFieldLabel !== null) {
+			return `Check "${invalidSubFieldLabel}": use "Label | type" with one of ${Object.values(FieldType).join(', ')}`
+		}
+		if (subFields.some((field) => field.fieldType === FieldType.REPEATABLE)) {
+			return 'Repeating groups cannot be nested'
+		}
+		const names = subFields.map((field) => field.name)
+		if (new Set(names).size !== names.length) return 'Sub-field labels must be unique'
+		return null
+	}, [editing, form.fieldType, subFields, invalidSubFieldLabel])
+
+	const canSave =
+		!!editing && form.label.trim().length > 0 && !nameError && !rulesError && !subFieldsError
+
+	const updateForm = (changes: Partial<VariableFormValues>) => {
+		setForm((prev) => ({ ...prev, ...changes }))
+	}
+
+	const suggestName = (label: string) =>
+		createUniqueId(toCamelCase(label), variables.map((v) => v.id), '')
+
+	const handleLabelChange = (label: string) => {
+		// Keep suggesting a token name until the user types their own
+		const isSuggestedName = form.name === '' || form.name === suggestName(form.label)
+		updateForm(isNew && isSuggestedName ? { label, name: suggestName(label) } : { label })
+	}
+
+	const handleNew = () => {
+		setForm(EMPTY_FORM)
+		setEditing({ id: null })
+	}
+
+	const handleEdit = (variable: TemplateVariable) => {
+		setForm(toFormValues(variable))
+		setEditing({ id: variable.id })
+	}
+
+	const handleSave = () => {
+		if (!editing || !canSave) return
+
+		const options = splitLines(form.options)
+		const definition: Partial<TemplateVariable> = {
+			label: form.label.trim(),
+			fieldType: form.fieldType,
+			placeholder: form.placeholder.trim() || undefined,
+			required: form.required,
+			defaultValue: form.defaultValue.trim() || undefined,
+			options: options.length > 0 && OPTION_FIELD_TYPES.includes(form.fieldType) ? options : undefined,
+			currency: form.fieldType === FieldType.CURRENCY && form.currency.trim()
+				? form.currency.trim().toUpperCase()
+				: undefined,
+			fields: form.fieldType === FieldType.REPEATABLE ? subFields : undefined,
+			maxItems: form.fieldType === FieldType.REPEATABLE && form.maxItems.trim()
+				? Number(form.maxItems)
+				: undefined,
+			group: form.group,
+			order: form.order.trim() ? Number(form.order) : undefined,
+			validation: toValidationRules(form),
+		}
+
+		if (editing.id) {
+			dispatch(updateVariable({ id: editing.id, variable: definition }))
+		} else {
+			dispatch(addVariable({
+				...definition,
+				id: form.name,
+				name: form.name,
+			} as TemplateVariable))
+		}
+		setEditing(null)
+	}
+
+	const handleDelete = (variable: TemplateVariable) => {
+		if (window.confirm(`Delete the variable "${variable.label}"?`)) {
+			dispatch(removeVariable(variable.id))
+			if (editing?.id === variable.id) {
+				setEditing(null)
+			}
+		}
+	}
+
+	return (
+		<div className="settings-panel variable-manager">
+			<h3>Variables</h3>
+			<p className="settings-description">
+				Variables are the form fields templates can use as <code>{'{{name}}'}</code> tokens. Variables that are still used by a template cannot be deleted.
+			</p>
+
+			<ul className="variable-manager-list">
+				{variables.map((variable) => {
+					const usedIn = usage[variable.id] ?? []
+					const isBuiltIn = isBuiltInVariable(variable.id)
+					const deleteBlockedReason = isBuiltIn
+						? 'Built-in variables cannot be deleted'
+						: usedIn.length > 0
+							? `Used by ${usedIn.join(', ')}`
+							: undefined
+					return (
+						<li key={variable.id} className="variable-manager-item">
+							<div className="variable-manager-info">
+								<div className="variable-manager-title">
+									<strong>{variable.label}</strong>
+									<code>{`{{${variable.name}}}`}</code>
+									<span className="variable-manager-tag">{FIELD_TYPE_LABELS[variable.fieldType]}</span>
+									{variable.required && <span className="variable-manager-tag">Required</span>}
+									{isBuiltIn && <span className="variable-manager-tag">Built-in</span>}
+								</div>
+								<p className="variable-manager-usage">
+									{usedIn.length > 0
+										? `Used in ${usedIn.length} ${usedIn.length === 1 ? 'template' : 'templates'}: ${usedIn.join(', ')}`
+										: 'Not used by any template'}
+								</p>
+							</div>
+							<div className="variable-manager-actions">
+								<button type="button" onClick={() => handleEdit(variable)} className="btn btn-secondary btn-template-action">
+									Edit
+								</button>
+								<button
+									type="button"
+									onClick={() => handleDelete(variable)}
+									disabled={!!deleteBlockedReason}
+									className="btn btn-reset btn-template-action"
+									title={deleteBlockedReason ?? 'Delete variable'}
+								>
+									Delete
+								</button>
+							</div>
+						</li>
+					)
+				})}
+			</ul>
+
+			{editing ? (
+				<div className="settings-form variable-manager-form">
+					<h4 className="variable-manager-form-title">
+						{isNew ? 'New Variable' : `Edit ${form.label || form.name}`}
+					</h4>
+					<div className="variable-manager-grid">
+						<div className="form-group">
+							<label htmlFor="variable-label" className="form-label">
+								Label<span className="required">*</span>
+							</label>
+							<input
+								type="text"
+								id="variable-label"
+								value={form.label}
+								onChange={(e) => handleLabelChange(e.target.value)}
+								autoComplete="off"
+								className="form-input"
+								placeholder="e.g., Hiring Manager Title"
+							/>
+						</div>
+						<div className="form-group">
+							<label htmlFor="variable-name" className="form-label">
+								Token Name
+							</label>
+							<input
+								type="text"
+								id="variable-name"
+								value={form.name}
+								onChange={(e) => updateForm({ name: e.target.value })}
+								disabled={!isNew}
+								autoComplete="off"
+								className="form-input"
+								title={isNew ? undefined : 'Token names cannot be changed once templates may use them'}
+							/>
+							{nameError && form.label && (
+								<div className="field-error" role="alert">
+									<span className="error-icon">⚠️</span>
+									<span>{nameError}</span>
+								</div>
+							)}
+						</div>
+						<div className="form-group">
+							<label htmlFor="variable-field-type" className="form-label">
+								Field Type
+							</label>
+							<select
+								id="variable-field-type"
+								value={form.fieldType}
+								onChange={(e) => updateForm({ fieldType: e.target.value as FieldType })}
+								className="form-input"
+							>
+								{Object.values(FieldType).map((fieldType) => (
+									<option key={fieldType} value={fieldType}>
+										{FIELD_TYPE_LABELS[fieldType]}
+									</option>
+								))}
+							</select>
+						</div>
+						<div className="form-group">
+							<label htmlFor="variable-placeholder" className="form-label">
+								Placeholder
+							</label>
+							<input
+								type="text"
+								id="variable-placeholder"
+								value={form.placeholder}
+								onChange={(e) => updateForm({ placeholder: e.target.value })}
+								autoComplete="off"
+								className="form-input"
+								placeholder="Shown in the letter while empty, e.g. [Title]"
+							/>
+						</div>
+						<div className="form-group">
+							<label htmlFor="variable-default" className="form-label">
+								Default Value
+							</label>
+							<input
+								type="text"
+								id="variable-default"
+								value={form.defaultValue}
+								onChange={(e) => updateForm({ defaultValue: e.target.value })}
+								autoComplete="off"
+								className="form-input"
+							/>
+						</div>
+						<div className="form-group">
+							<label htmlFor="variable-group" className="form-label">
+								Form Section
+							</label>
+							<select
+								id="variable-group"
+								value={form.group}
+								onChange={(e) => updateForm({ group: e.target.value as FieldGroup })}
+								className="form-input"
+							>
+								{FIELD_GROUPS.map((group) => (
+									<option key={group.id} value={group.id}>
+										{group.title}
+									</option>
+								))}
+							</select>
+						</div>
+						<div className="form-group">
+							<label htmlFor="variable-order" className="form-label">
+								Order in Section
+							</label>
+							<input
+								type="number"
+								id="variable-order"
+								value={form.order}
+								onChange={(e) => updateForm({ order: e.target.value })}
+								autoComplete="off"
+								className="form-input"
+								placeholder="Lowest first; blank places it last"
+							/>
+						</div>
+						<div className="form-group variable-manager-required">
+							<label className="form-label">
+								<input
+									type="checkbox"
+									checked={form.required}
+									onChange={(e) => updateForm({ required: e.target.checked })}
+								/>{' '}
+								Required
+							</label>
+						</div>
+					</div>
+					{form.fieldType === FieldType.CURRENCY && (
+						<div className="form-group">
+							<label htmlFor="variable-currency" className="form-label">
+								Currency Code
+							</label>
+							<input
+								type="text"
+								id="variable-currency"
+								value={form.currency}
+								onChange={(e) => updateForm({ currency: e.target.value })}
+								maxLength={3}
+								autoComplete="off"
+								className="form-input"
+								placeholder="USD"
+							/>
+						</div>
+					)}
+					{form.fieldType === FieldType.REPEATABLE && (
+						<div className="variable-manager-grid">
+							<div className="form-group">
+								<label htmlFor="variable-fields" className="form-label">
+									Sub-fields (one per line)
+								</label>
+								<textarea
+									id="variable-fields"
+									value={form.fields}
+									onChange={(e) => updateForm({ fields: e.target.value })}
+									rows={4}
+									className="form-textarea"
+									placeholder={'Project Name* | text\nRole | text\nOutcome | textarea'}
+								/>
+								{subFields.length > 0 && !subFieldsError && (
+									<p className="variable-manager-usage">
+										Use inside {`{{#each ${form.name}}}`}:{' '}
+										{subFields.map((field) => `{{${field.name}}}`).join(', ')}
+									</p>
+								)}
+								{subFieldsError && (
+									<div className="field-error" role="alert">
+										<span className="error-icon">⚠️</span>
+										<span>{subFieldsError}</span>
+									</div>
+								)}
+							</div>
+							<div className="form-group">
+								<label htmlFor="variable-max-items" className="form-label">
+									Maximum Entries
+								</label>
+								<input
+									type="number"
+									id="variable-max-items"
+									min={1}
+									value={form.maxItems}
+									onChange={(e) => updateForm({ maxItems: e.target.value })}
+									className="form-input"
+									placeholder="No limit"
+								/>
+							</div>
+						</div>
+					)}
+					{OPTION_FIELD_TYPES.includes(form.fieldType) && (
+						<div className="form-group">
+							<label htmlFor="variable-options" className="form-label">
+								Options (one per line)
+							</label>
+							<textarea
+								id="variable-options"
+								value={form.options}
+								onChange={(e) => updateForm({ options: e.target.value })}
+								rows={4}
+								className="form-textarea"
+							/>
+						</div>
+					)}
+					{!RULELESS_FIELD_TYPES.includes(form.fieldType) && (
+						<h5 className="variable-manager-form-subtitle">Validation Rules</h5>
+					)}
+					<div className="variable-manager-grid">
+						{RULELESS_FIELD_TYPES.includes(form.fieldType) ? null : form.fieldType === FieldType.DATE ? (
+							<>
+								<div className="form-group">
+									<label htmlFor="variable-min-date" className="form-label">
+										Earliest Date
+									</label>
+									<input
+										type="text"
+										id="variable-min-date"
+										value={form.minDate}
+										onChange={(e) => updateForm({ minDate: e.target.value })}
+										autoComplete="off"
+										className="form-input"
+										placeholder="YYYY-MM-DD or today"
+									/>
+								</div>
+								<div className="form-group">
+									<label htmlFor="variable-max-date" className="form-label">
+										Latest Date
+									</label>
+									<input
+										type="text"
+										id="variable-max-date"
+										value={form.maxDate}
+										onChange={(e) => updateForm({ maxDate: e.target.value })}
+										autoComplete="off"
+										className="form-input"
+										placeholder="YYYY-MM-DD or today"
+									/>
+								</div>
+							</>
+						) : (
+							<>
+								{form.fieldType !== FieldType.MULTISELECT && (
+									<>
+										<div className="form-group">
+											<label htmlFor="variable-min-length" className="form-label">
+												Minimum Length
+											</label>
+											<input
+												type="number"
+												id="variable-min-length"
+												min={0}
+												value={form.minLength}
+												onChange={(e) => updateForm({ minLength: e.target.value })}
+												className="form-input"
+											/>
+										</div>
+										<div className="form-group">
+											<label htmlFor="variable-max-length" className="form-label">
+												Maximum Length
+											</label>
+											<input
+												type="number"
+												id="variable-max-length"
+												min={0}
+												value={form.maxLength}
+												onChange={(e) => updateForm({ maxLength: e.target.value })}
+												className="form-input"
+											/>
+										</div>
+										<div className="form-group">
+											<label htmlFor="variable-pattern" className="form-label">
+												Pattern
+											</label>
+											<input
+												type="text"
+												id="variable-pattern"
+												value={form.pattern}
+												onChange={(e) => updateForm({ pattern: e.target.value })}
+												autoComplete="off"
+												className="form-input"
+												placeholder="Regular expression, e.g. ^[A-Z]{2}-\d+$"
+											/>
+										</div>
+										<div className="form-group">
+											<label htmlFor="variable-pattern-message" className="form-label">
+												Pattern Message
+											</label>
+											<input
+												type="text"
+												id="variable-pattern-message"
+												value={form.patternMessage}
+												onChange={(e) => updateForm({ patternMessage: e.target.value })}
+												disabled={!form.pattern.trim()}
+												autoComplete="off"
+												className="form-input"
+												placeholder="Shown when the pattern does not match"
+											/>
+										</div>
+									</>
+								)}
+								<div className="form-group">
+									<label htmlFor="variable-allowed-values" className="form-label">
+										Allowed Values (one per line)
+									</label>
+									<textarea
+										id="variable-allowed-values"
+										value={form.allowedValues}
+										onChange={(e) => updateForm({ allowedValues: e.target.value })}
+										rows={3}
+										className="form-textarea"
+										placeholder="Leave empty to allow any value"
+									/>
+								</div>
+							</>
+						)}
+					</div>
+					{rulesError && (
+						<div className="field-error" role="alert">
+							<span className="error-icon">⚠️</span>
+							<span>{rulesError}</span>
+						</div>
+					)}
+					<div className="settings-actions-right variable-manager-form-actions">
+						<button type="button" onClick={() => setEditing(null)} className="btn btn-secondary">
+							Cancel
+						</button>
+						<button type="button" onClick={handleSave} disabled={!canSave} className="btn btn-primary">
+							{isNew ? 'Add Variable' : 'Save Variable'}
+						</button>
+					</div>
+				</div>
+			) : null}
+
+			<div className="settings-actions">
+				<button type="button" onClick={handleNew} className="btn btn-secondary">
+					<span>➕</span>
+					<span>New Variable</span>
+				</button>
+				<div className="settings-actions-right">
+					<button onClick={onClose} className="btn btn-secondary" type="button">
+						Close
+					</button>
+				</div>
+			</div>
+		</div>
+	)
+}
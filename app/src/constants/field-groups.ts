@@ -0,0 +1,56 @@
+import { type TemplateVariable, FieldGroup } from '../types'
+
+/**
+ * Form section definition, in display order
+ */
+export interface FieldGroupDefinition {
+	id: FieldGroup
+	title: string
+	hint?: string
+	defaultExpanded: boolean
+}
+
+export const FIELD_GROUPS: FieldGroupDefinition[] = [
+	{
+		id: FieldGroup.APPLICATION_DETAILS,
+		title: 'Application Details',
+		defaultExpanded: true,
+	},
+	{
+		id: FieldGroup.TEMPLATE_SPECIFIC,
+		title: 'Additional Information',
+		defaultExpanded: true,
+	},
+	{
+		id: FieldGroup.RECIPIENT,
+		title: 'Recipient',
+		hint: 'Used for the inside address in PDFs and to build the salutation.',
+		defaultExpanded: false,
+	},
+	{
+		id: FieldGroup.PERSONAL_INFO,
+		title: 'Personal Information',
+		hint: 'Configure these in Settings to auto-fill for future applications.',
+		defaultExpanded: true,
+	},
+]
+
+export const DEFAULT_FIELD_GROUP: FieldGroup = FieldGroup.TEMPLATE_SPECIFIC
+
+/**
+ * Returns the section a variable belongs to, falling back to the default section
+ */
+export function getVariableGroup(variable: TemplateVariable): FieldGroup {
+	return FIELD_GROUPS.some((group) => group.id === variable.group)
+		? (variable.group as FieldGroup)
+		: DEFAULT_FIELD_GROUP
+}
+
+/**
+ * Sorts variables by their `order`; variables without one keep their position at the end
+ */
+export function sortByOrder(variables: TemplateVariable[]): TemplateVariable[] {
+	return [...variables].sort(
+		(a, b) => (a.order ?? Number.MAX_SAFE_INTEGER) - (b.order ?? Number.MAX_SAFE_INTEGER)
+	)
+}
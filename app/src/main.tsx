@@ -1,14 +1,22 @@
 import { StrictMode } from 'react'
 import { createRoot } from 'react-dom/client'
 import { Provider } from 'react-redux'
-import { store } from './store'
+import { rehydrateStore, store } from './store'
 import './index.css'
 import App from './App.tsx'
 
-createRoot(document.getElementById('root')!).render(
-	<StrictMode>
-		<Provider store={store}>
-			<App />
-		</Provider>
-	</StrictMode>,
-)
+function renderApp() {
+	createRoot(document.getElementById('root')!).render(
+		<StrictMode>
+			<Provider store={store}>
+				<App />
+			</Provider>
+		</StrictMode>,
+	)
+}
+
+// Load saved documents from IndexedDB (falling back to localStorage) before the first render,
+// so edits can't be made before hydration and then overwritten by it
+rehydrateStore()
+	.catch((err) => console.error('Failed to load saved documents:', err))
+	.finally(renderApp)
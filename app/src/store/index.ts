@@ -1,15 +1,130 @@
 import { configureStore } from '@reduxjs/toolkit'
-import templateVariablesReducer from './slices/template-variables-slice'
-import templatesReducer from './slices/templates-slice'
-import basicDetailsReducer from './slices/basic-details-slice'
+import templateVariablesReducer, {
+	hydrateVariables,
+	isVariableModified,
+} from './slices/template-variables-slice'
+import templatesReducer, { hydrateTemplates, isTemplateModified } from './slices/templates-slice'
+import basicDetailsReducer, { hydrateProfiles } from './slices/basic-details-slice'
+import draftsReducer, { hydrateDrafts } from './slices/drafts-slice'
+import applicationsReducer, { hydrateApplications } from './slices/applications-slice'
+import { getDocument, putDocument } from '../utils/document-store'
+import { STORAGE_KEYS, type StorageKey, type StorageSchema } from '../utils/local-storage'
 
 export const store = configureStore({
 	reducer: {
 		templateVariables: templateVariablesReducer,
 		templates: templatesReducer,
 		basicDetails: basicDetailsReducer,
+		drafts: draftsReducer,
+		applications: applicationsReducer,
 	},
 })
 
+const WRITE_DELAY_MS = 500
+
+// Writes waiting for the debounce delay, keyed by document
+const pendingWrites = new Map<StorageKey, () => Promise<void>>()
+let writeTimer: ReturnType<typeof setTimeout> | undefined
+
+function flushWrites(): void {
+	clearTimeout(writeTimer)
+	const writes = [...pendingWrites.values()]
+	pendingWrites.clear()
+	writes.forEach((write) => void write())
+}
+
+function scheduleWrite<K extends StorageKey>(key: K, data: StorageSchema[K]): void {
+	pendingWrites.set(key, () => putDocument(key, data))
+	clearTimeout(writeTimer)
+	writeTimer = setTimeout(flushWrites, WRITE_DELAY_MS)
+}
+
+// Don't lose the last edits when the tab is hidden or closed
+if (typeof document !== 'undefined') {
+	document.addEventListener('visibilitychange', () => {
+		if (document.visibilityState === 'hidden') flushWrites()
+	})
+}
+
+// Persist custom and edited templates/variables, sender profiles, drafts and applications whenever they change
+let persistedTemplates = store.getState().templates.templates
+let persistedVariables = store.getState().templateVariables.variables
+let persistedProfiles = store.getState().basicDetails.profiles
+let persistedActiveProfileId = store.getState().basicDetails.activeProfileId
+let persistedDrafts = store.getState().drafts.drafts
+let persistedApplications = store.getState().applications.applications
+let hydrated = false
+
+store.subscribe(() => {
+	// Nothing is written until saved documents are loaded, so they can't be overwritten
+	if (!hydrated) return
+
+	const { templates } = store.getState().templates
+	const { variables } = store.getState().templateVariables
+	const { profiles, activeProfileId } = store.getState().basicDetails
+	const { drafts } = store.getState().drafts
+	const { applications } = store.getState().applications
+
+	if (templates !== persistedTemplates) {
+		persistedTemplates = templates
+		scheduleWrite(STORAGE_KEYS.TEMPLATES, templates.filter(isTemplateModified))
+	}
+	if (variables !== persistedVariables) {
+		persistedVariables = variables
+		scheduleWrite(STORAGE_KEYS.VARIABLES, variables.filter(isVariableModified))
+	}
+	if (profiles !== persistedProfiles || activeProfileId !== persistedActiveProfileId) {
+		persistedProfiles = profiles
+		persistedActiveProfileId = activeProfileId
+		scheduleWrite(STORAGE_KEYS.PROFILES, { profiles, activeProfileId })
+	}
+	if (drafts !== persistedDrafts) {
+		persistedDrafts = drafts
+		scheduleWrite(STORAGE_KEYS.DRAFTS, drafts)
+	}
+	if (applications !== persistedApplications) {
+		persistedApplications = applications
+		scheduleWrite(STORAGE_KEYS.APPLICATIONS, applications)
+	}
+})
+
+/**
+ * Starts persisting changes, taking the current state as already saved
+ */
+function markHydrated(): void {
+	persistedTemplates = store.getState().templates.templates
+	persistedVariables = store.getState().templateVariables.variables
+	persistedProfiles = store.getState().basicDetails.profiles
+	persistedActiveProfileId = store.getState().basicDetails.activeProfileId
+	persistedDrafts = store.getState().drafts.drafts
+	persistedApplications = store.getState().applications.applications
+	hydrated = true
+}
+
+/**
+ * Loads saved documents into the store. Call once on boot and wait for it before
+ * rendering, so no edit can be made (and overwritten) before hydration.
+ * If loading fails, the state read from localStorage at startup is kept and saved from then on.
+ */
+export async function rehydrateStore(): Promise<void> {
+	try {
+		const [templates, variables, profiles, drafts, applications] = await Promise.all([
+			getDocument(STORAGE_KEYS.TEMPLATES),
+			getDocument(STORAGE_KEYS.VARIABLES),
+			getDocument(STORAGE_KEYS.PROFILES),
+			getDocument(STORAGE_KEYS.DRAFTS),
+			getDocument(STORAGE_KEYS.APPLICATIONS),
+		])
+
+		store.dispatch(hydrateTemplates(templates ?? []))
+		store.dispatch(hydrateVariables(variables ?? []))
+		store.dispatch(hydrateProfiles(profiles))
+		store.dispatch(hydrateDrafts(drafts ?? []))
+		store.dispatch(hydrateApplications(applications ?? []))
+	} finally {
+		markHydrated()
+	}
+}
+
 export type RootState = ReturnType<typeof store.getState>
 export type AppDispatch = typeof store.dispatch
@@ -0,0 +1,94 @@
+import { createSlice, type PayloadAction } from '@reduxjs/toolkit'
+import { type ApplicationRecord, ApplicationStatus } from '../../types'
+import { FOLLOW_UP_DELAY_DAYS, addDays } from '../../utils/calendar-export'
+import { formatDateValue } from '../../utils/field-validation'
+import { loadApplications } from '../../utils/local-storage'
+import { createUniqueId } from '../../utils/unique-id'
+
+interface ApplicationsState {
+	applications: ApplicationRecord[] // Most recently recorded first
+}
+
+type ExportedLetter = Pick<
+	ApplicationRecord,
+	'companyName' | 'position' | 'templateId' | 'content' | 'values' | 'draftId'
+>
+
+// Exports of the same letter within this time are one application, e.g. PDF then Word
+const REEXPORT_WINDOW_MS = 30 * 60 * 1000
+
+function isSameLetter(application: ApplicationRecord, letter: ExportedLetter): boolean {
+	const normalize = (value: string) => value.trim().toLowerCase()
+	return (
+		application.templateId === letter.templateId &&
+		normalize(application.companyName) === normalize(letter.companyName) &&
+		normalize(application.position) === normalize(letter.position)
+	)
+}
+
+// Load applications from localStorage on initialization
+const initialState: ApplicationsState = {
+	applications: loadApplications(),
+}
+
+const applicationsSlice = createSlice({
+	name: 'applications',
+	initialState,
+	reducers: {
+		// Record an exported letter; exporting the same draft again, or the same letter
+		// without a draft shortly after, updates its record
+		recordApplication: (state, action: PayloadAction<ExportedLetter>) => {
+			const now = new Date().toISOString()
+			const existing = action.payload.draftId
+				? state.applications.find((a) => a.draftId === action.payload.draftId)
+				: state.applications.find(
+						(a) =>
+							isSameLetter(a, action.payload) &&
+							Date.now() - new Date(a.updatedAt).getTime() < REEXPORT_WINDOW_MS
+					)
+
+			if (existing) {
+				Object.assign(existing, action.payload, { updatedAt: now })
+				return
+			}
+
+			const sentAt = formatDateValue(new Date())
+			state.applications.unshift({
+				...action.payload,
+				id: createUniqueId(`application-${Date.now()}`, state.applications.map((a) => a.id)),
+				sentAt,
+				status: ApplicationStatus.APPLIED,
+				followUpAt: addDays(sentAt, FOLLOW_UP_DELAY_DAYS),
+				createdAt: now,
+				updatedAt: now,
+			})
+		},
+		updateApplication: (
+			state,
+			action: PayloadAction<{
+				id: string
+				application: Partial<
+					Pick<ApplicationRecord, 'status' | 'sentAt' | 'followUpAt' | 'companyName' | 'position'>
+				>
+			}>
+		) => {
+			const application = state.applications.find((a) => a.id === action.payload.id)
+			if (application) {
+				Object.assign(application, action.payload.application, {
+					updatedAt: new Date().toISOString(),
+				})
+			}
+		},
+		removeApplication: (state, action: PayloadAction<string>) => {
+			state.applications = state.applications.filter((a) => a.id !== action.payload)
+		},
+		// Replace applications with the ones loaded from the document store
+		hydrateApplications: (state, action: PayloadAction<ApplicationRecord[]>) => {
+			state.applications = action.payload
+		},
+	},
+})
+
+export const { recordApplication, updateApplication, removeApplication, hydrateApplications } =
+	applicationsSlice.actions
+export default applicationsSlice.reducer
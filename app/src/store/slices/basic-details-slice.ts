@@ -1,45 +1,137 @@
 import { createSlice, type PayloadAction } from '@reduxjs/toolkit'
-import { type BasicDetails } from '../../types'
-import { loadDefaults } from '../../utils/local-storage'
-
-// Load defaults from localStorage on initialization
-const savedDefaults = loadDefaults()
+import { type BasicDetails, type SenderProfile } from '../../types'
+import { loadProfiles, type StoredProfiles } from '../../utils/local-storage'
+import { createUniqueId, slugify } from '../../utils/unique-id'
 
 interface BasicDetailsState {
-	details: BasicDetails
+	profiles: SenderProfile[]
+	activeProfileId: string
+	details: BasicDetails // Details of the active profile
 }
 
-const initialState: BasicDetailsState = {
-	details: {
-		fullName: savedDefaults.fullName,
-		email: savedDefaults.email,
-		phone: savedDefaults.phone,
-		techStack: savedDefaults.techStack || '',
-		address: '',
-		city: '',
-		state: '',
-		zipCode: '',
-		country: '',
-		linkedIn: '',
-		portfolio: '',
-	},
+const EMPTY_DETAILS: BasicDetails = {
+	fullName: '',
+	email: '',
+	phone: '',
+	techStack: '',
+	address: '',
+	city: '',
+	state: '',
+	zipCode: '',
+	country: '',
+	linkedIn: '',
+	portfolio: '',
+}
+
+const DEFAULT_PROFILE_ID = 'default'
+
+/**
+ * Sender details with every field blank, e.g. for a new profile
+ */
+export function createEmptyDetails(): BasicDetails {
+	return { ...EMPTY_DETAILS }
+}
+
+function createDefaultProfile(): SenderProfile {
+	return {
+		id: DEFAULT_PROFILE_ID,
+		name: 'Personal',
+		details: EMPTY_DETAILS,
+	}
+}
+
+function getActiveProfile(state: BasicDetailsState): SenderProfile {
+	return state.profiles.find((p) => p.id === state.activeProfileId) ?? state.profiles[0]
+}
+
+/**
+ * Builds state from saved profiles, falling back to a single empty profile
+ */
+function restoreProfiles(savedProfiles: StoredProfiles | null): BasicDetailsState {
+	const profiles = savedProfiles
+		? savedProfiles.profiles.map((p) => ({ ...p, details: { ...EMPTY_DETAILS, ...p.details } }))
+		: [createDefaultProfile()]
+	const activeProfileId = profiles.some((p) => p.id === savedProfiles?.activeProfileId)
+		? savedProfiles!.activeProfileId
+		: profiles[0].id
+
+	return {
+		profiles,
+		activeProfileId,
+		details: profiles.find((p) => p.id === activeProfileId)!.details,
+	}
 }
 
+// Load profiles from localStorage on initialization
+const initialState: BasicDetailsState = restoreProfiles(loadProfiles())
+
 const basicDetailsSlice = createSlice({
 	name: 'basicDetails',
 	initialState,
 	reducers: {
 		updateDetails: (state, action: PayloadAction<Partial<BasicDetails>>) => {
-			state.details = {
-				...state.details,
+			const profile = getActiveProfile(state)
+			profile.details = {
+				...profile.details,
 				...action.payload,
 			}
+			state.details = profile.details
 		},
 		resetDetails: (state) => {
-			state.details = initialState.details
+			const profile = createDefaultProfile()
+			state.profiles = [profile]
+			state.activeProfileId = profile.id
+			state.details = profile.details
+		},
+		addProfile: (state, action: PayloadAction<{ name: string; details?: Partial<BasicDetails> }>) => {
+			const profile: SenderProfile = {
+				id: createUniqueId(slugify(action.payload.name) || 'profile', state.profiles.map((p) => p.id)),
+				name: action.payload.name,
+				details: { ...EMPTY_DETAILS, ...action.payload.details },
+			}
+			state.profiles.push(profile)
+			state.activeProfileId = profile.id
+			state.details = profile.details
+		},
+		renameProfile: (state, action: PayloadAction<{ id: string; name: string }>) => {
+			const profile = state.profiles.find((p) => p.id === action.payload.id)
+			if (profile) {
+				profile.name = action.payload.name
+			}
+		},
+		removeProfile: (state, action: PayloadAction<string>) => {
+			// Keep at least one profile
+			if (state.profiles.length <= 1) return
+			state.profiles = state.profiles.filter((p) => p.id !== action.payload)
+			if (state.activeProfileId === action.payload) {
+				state.activeProfileId = state.profiles[0].id
+				state.details = state.profiles[0].details
+			}
+		},
+		setActiveProfile: (state, action: PayloadAction<string>) => {
+			const profile = state.profiles.find((p) => p.id === action.payload)
+			if (profile) {
+				state.activeProfileId = profile.id
+				state.details = profile.details
+			}
+		},
+		setProfileSignature: (state, action: PayloadAction<string | null>) => {
+			getActiveProfile(state).signature = action.payload ?? undefined
 		},
+		// Replace profiles with the ones loaded from the document store
+		hydrateProfiles: (_state, action: PayloadAction<StoredProfiles | null>) =>
+			restoreProfiles(action.payload),
 	},
 })
 
-export const { updateDetails, resetDetails } = basicDetailsSlice.actions
+export const {
+	updateDetails,
+	resetDetails,
+	addProfile,
+	renameProfile,
+	removeProfile,
+	setActiveProfile,
+	setProfileSignature,
+	hydrateProfiles,
+} = basicDetailsSlice.actions
 export default basicDetailsSlice.reducer
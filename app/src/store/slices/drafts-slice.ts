@@ -0,0 +1,98 @@
+import { createSlice, type PayloadAction } from '@reduxjs/toolkit'
+import { type Draft } from '../../types'
+import { loadDrafts } from '../../utils/local-storage'
+import { createUniqueId } from '../../utils/unique-id'
+
+interface DraftsState {
+	drafts: Draft[] // Most recently updated first
+	activeDraftId: string | null // Draft being edited; null for an unsaved letter
+}
+
+type DraftContent = Pick<Draft, 'templateId' | 'values' | 'profileId' | 'signature'>
+
+function createDraftId(drafts: Draft[]): string {
+	return createUniqueId(`draft-${Date.now()}`, drafts.map((d) => d.id))
+}
+
+// Load drafts from localStorage on initialization
+const initialState: DraftsState = {
+	drafts: loadDrafts(),
+	activeDraftId: null,
+}
+
+const draftsSlice = createSlice({
+	name: 'drafts',
+	initialState,
+	reducers: {
+		// Start a draft from the letter being edited and make it active
+		createDraft: (state, action: PayloadAction<DraftContent>) => {
+			const now = new Date().toISOString()
+			const draft: Draft = {
+				...action.payload,
+				id: createDraftId(state.drafts),
+				name: '',
+				createdAt: now,
+				updatedAt: now,
+			}
+			state.drafts.unshift(draft)
+			state.activeDraftId = draft.id
+		},
+		// Autosave the active draft, or just the parts of it that changed
+		saveDraft: (state, action: PayloadAction<Partial<DraftContent>>) => {
+			const index = state.drafts.findIndex((d) => d.id === state.activeDraftId)
+			if (index === -1) return
+			const [draft] = state.drafts.splice(index, 1)
+			state.drafts.unshift({
+				...draft,
+				...action.payload,
+				updatedAt: new Date().toISOString(),
+			})
+		},
+		renameDraft: (state, action: PayloadAction<{ id: string; name: string }>) => {
+			const draft = state.drafts.find((d) => d.id === action.payload.id)
+			if (draft) {
+				draft.name = action.payload.name
+			}
+		},
+		duplicateDraft: (state, action: PayloadAction<string>) => {
+			const draft = state.drafts.find((d) => d.id === action.payload)
+			if (!draft) return
+			const now = new Date().toISOString()
+			state.drafts.unshift({
+				...draft,
+				id: createDraftId(state.drafts),
+				name: draft.name ? `${draft.name} (copy)` : '',
+				values: { ...draft.values },
+				createdAt: now,
+				updatedAt: now,
+			})
+		},
+		removeDraft: (state, action: PayloadAction<string>) => {
+			state.drafts = state.drafts.filter((d) => d.id !== action.payload)
+			if (state.activeDraftId === action.payload) {
+				state.activeDraftId = null
+			}
+		},
+		setActiveDraft: (state, action: PayloadAction<string | null>) => {
+			state.activeDraftId = action.payload
+		},
+		// Replace drafts with the ones loaded from the document store, staying on the open draft if it was saved
+		hydrateDrafts: (state, action: PayloadAction<Draft[]>) => {
+			state.drafts = action.payload
+			if (!action.payload.some((d) => d.id === state.activeDraftId)) {
+				state.activeDraftId = null
+			}
+		},
+	},
+})
+
+export const {
+	createDraft,
+	saveDraft,
+	renameDraft,
+	duplicateDraft,
+	removeDraft,
+	setActiveDraft,
+	hydrateDrafts,
+} = draftsSlice.actions
+export default draftsSlice.reducer
@@ -1,103 +1,321 @@
 import { createSlice, type PayloadAction } from '@reduxjs/toolkit'
-import { type TemplateVariable, FieldType } from '../../types'
+import { type TemplateVariable, FieldType, FieldGroup } from '../../types'
 import { TECH_STACK_OPTIONS } from '../../constants/tech-stack-options'
+import { loadCustomVariables } from '../../utils/local-storage'
 
 interface TemplateVariablesState {
 	variables: TemplateVariable[]
 }
 
+/**
+ * Variables shipped with the app. These cannot be deleted.
+ */
+const BUILT_IN_VARIABLES: TemplateVariable[] = [
+	{
+		id: 'fullName',
+		name: 'fullName',
+		label: 'Full Name',
+		fieldType: FieldType.TEXT,
+		required: true,
+		placeholder: '[Your Full Name]',
+		group: FieldGroup.PERSONAL_INFO,
+		order: 1,
+		validation: { maxLength: 100 },
+	},
+	{
+		id: 'email',
+		name: 'email',
+		label: 'Email',
+		fieldType: FieldType.EMAIL,
+		required: true,
+		placeholder: '[your.email@example.com]',
+		group: FieldGroup.PERSONAL_INFO,
+		order: 2,
+	},
+	{
+		id: 'phone',
+		name: 'phone',
+		label: 'Phone',
+		fieldType: FieldType.PHONE,
+		placeholder: '[Your Phone Number]',
+		group: FieldGroup.PERSONAL_INFO,
+		order: 3,
+	},
+	{
+		id: 'address',
+		name: 'address',
+		label: 'Street Address',
+		fieldType: FieldType.TEXT,
+		placeholder: '[Street Address]',
+		group: FieldGroup.PERSONAL_INFO,
+		order: 4,
+	},
+	{
+		id: 'city',
+		name: 'city',
+		label: 'City',
+		fieldType: FieldType.TEXT,
+		placeholder: '[City]',
+		group: FieldGroup.PERSONAL_INFO,
+		order: 5,
+	},
+	{
+		id: 'state',
+		name: 'state',
+		label: 'State / Region',
+		fieldType: FieldType.TEXT,
+		placeholder: '[State]',
+		group: FieldGroup.PERSONAL_INFO,
+		order: 6,
+	},
+	{
+		id: 'zipCode',
+		name: 'zipCode',
+		label: 'ZIP / Postal Code',
+		fieldType: FieldType.TEXT,
+		placeholder: '[ZIP Code]',
+		group: FieldGroup.PERSONAL_INFO,
+		order: 7,
+	},
+	{
+		id: 'country',
+		name: 'country',
+		label: 'Country',
+		fieldType: FieldType.TEXT,
+		placeholder: '[Country]',
+		group: FieldGroup.PERSONAL_INFO,
+		order: 8,
+	},
+	{
+		id: 'linkedIn',
+		name: 'linkedIn',
+		label: 'LinkedIn',
+		fieldType: FieldType.URL,
+		placeholder: 'https://linkedin.com/in/username',
+		group: FieldGroup.PERSONAL_INFO,
+		order: 9,
+	},
+	{
+		id: 'portfolio',
+		name: 'portfolio',
+		label: 'Portfolio / GitHub URL',
+		fieldType: FieldType.URL,
+		placeholder: 'https://github.com/username',
+		group: FieldGroup.PERSONAL_INFO,
+		order: 10,
+	},
+	{
+		id: 'companyName',
+		name: 'companyName',
+		label: 'Company Name',
+		fieldType: FieldType.TEXT,
+		required: true,
+		placeholder: '[Company Name]',
+		group: FieldGroup.APPLICATION_DETAILS,
+		order: 1,
+	},
+	{
+		id: 'techStack',
+		name: 'techStack',
+		label: 'Relevant Tech Stack',
+		fieldType: FieldType.MULTISELECT,
+		options: TECH_STACK_OPTIONS,
+		placeholder: '[Relevant Technologies]',
+		group: FieldGroup.APPLICATION_DETAILS,
+		order: 2,
+	},
+	{
+		id: 'position',
+		name: 'position',
+		label: 'Position Applied For',
+		fieldType: FieldType.TEXT,
+		required: true,
+		placeholder: '[Job Position]',
+		group: FieldGroup.APPLICATION_DETAILS,
+		order: 3,
+	},
+	{
+		id: 'date',
+		name: 'date',
+		label: 'Date',
+		fieldType: FieldType.DATE,
+		placeholder: '[Date]',
+		group: FieldGroup.APPLICATION_DETAILS,
+		order: 4,
+	},
+	{
+		id: 'applicationDate',
+		name: 'applicationDate',
+		label: 'Date Applied',
+		fieldType: FieldType.DATE,
+		placeholder: '[Date Applied]',
+		group: FieldGroup.APPLICATION_DETAILS,
+		order: 5,
+		validation: { maxDate: 'today' },
+	},
+	{
+		id: 'referrerName',
+		name: 'referrerName',
+		label: 'Referrer Name',
+		fieldType: FieldType.TEXT,
+		placeholder: '[Name]',
+		group: FieldGroup.TEMPLATE_SPECIFIC,
+		order: 1,
+	},
+	{
+		id: 'companyAchievement',
+		name: 'companyAchievement',
+		label: 'Company Achievement/Aspect',
+		fieldType: FieldType.TEXT,
+		placeholder: '[specific achievement or aspect of the company]',
+		group: FieldGroup.TEMPLATE_SPECIFIC,
+		order: 2,
+	},
+	{
+		id: 'studentStatus',
+		name: 'studentStatus',
+		label: 'Student Status',
+		fieldType: FieldType.TEXT,
+		placeholder: '[student/recent graduate]',
+		group: FieldGroup.TEMPLATE_SPECIFIC,
+		order: 3,
+	},
+	{
+		id: 'salutation',
+		name: 'salutation',
+		label: 'Salutation',
+		fieldType: FieldType.TEXT,
+		placeholder: 'Dear Hiring Manager:',
+		group: FieldGroup.RECIPIENT,
+		order: 1,
+	},
+	{
+		id: 'recipientCourtesyTitle',
+		name: 'recipientCourtesyTitle',
+		label: 'Courtesy Title',
+		fieldType: FieldType.SELECT,
+		options: ['Mr.', 'Ms.', 'Mrs.', 'Mx.', 'Dr.'],
+		group: FieldGroup.RECIPIENT,
+		order: 2,
+	},
+	{
+		id: 'recipientName',
+		name: 'recipientName',
+		label: 'Recipient Name',
+		fieldType: FieldType.TEXT,
+		placeholder: '[Name/Hiring Manager]',
+		group: FieldGroup.RECIPIENT,
+		order: 3,
+	},
+	{
+		id: 'recipientTitle',
+		name: 'recipientTitle',
+		label: 'Recipient Title',
+		fieldType: FieldType.TEXT,
+		placeholder: '[e.g., Engineering Manager]',
+		group: FieldGroup.RECIPIENT,
+		order: 4,
+	},
+	{
+		id: 'recipientDepartment',
+		name: 'recipientDepartment',
+		label: 'Department',
+		fieldType: FieldType.TEXT,
+		placeholder: '[e.g., Engineering]',
+		group: FieldGroup.RECIPIENT,
+		order: 5,
+	},
+	{
+		id: 'recipientAddress',
+		name: 'recipientAddress',
+		label: 'Company Address',
+		fieldType: FieldType.TEXTAREA,
+		placeholder: '[Street, City, State ZIP]',
+		group: FieldGroup.RECIPIENT,
+		order: 6,
+	},
+	{
+		id: 'fieldIndustry',
+		name: 'fieldIndustry',
+		label: 'Field/Industry',
+		fieldType: FieldType.TEXT,
+		placeholder: '[field/industry]',
+		group: FieldGroup.TEMPLATE_SPECIFIC,
+		order: 5,
+	},
+	{
+		id: 'engagementType',
+		name: 'engagementType',
+		label: 'Engagement Type',
+		fieldType: FieldType.SELECT,
+		options: ['Hourly', 'Fixed Price', 'Retainer'],
+		group: FieldGroup.TEMPLATE_SPECIFIC,
+		order: 6,
+	},
+	{
+		id: 'rate',
+		name: 'rate',
+		label: 'Rate',
+		fieldType: FieldType.CURRENCY,
+		currency: 'USD',
+		group: FieldGroup.TEMPLATE_SPECIFIC,
+		order: 7,
+	},
+	{
+		id: 'availableNow',
+		name: 'availableNow',
+		label: 'Availability',
+		fieldType: FieldType.CHECKBOX,
+		placeholder: 'Mention that I can start immediately',
+		group: FieldGroup.TEMPLATE_SPECIFIC,
+		order: 9,
+	},
+	{
+		id: 'projects',
+		name: 'projects',
+		label: 'Past Projects',
+		fieldType: FieldType.REPEATABLE,
+		fields: [
+			{ name: 'projectName', label: 'Project Name', fieldType: FieldType.TEXT, required: true },
+			{ name: 'projectRole', label: 'Role', fieldType: FieldType.TEXT },
+			{ name: 'projectOutcome', label: 'Outcome', fieldType: FieldType.TEXTAREA },
+		],
+		maxItems: 5,
+		group: FieldGroup.TEMPLATE_SPECIFIC,
+		order: 10,
+	},
+]
+
+/**
+ * Whether the id belongs to a built-in variable
+ */
+export function isBuiltInVariable(id: string): boolean {
+	return BUILT_IN_VARIABLES.some((v) => v.id === id)
+}
+
+/**
+ * Whether a variable differs from its built-in definition (always true for custom variables)
+ */
+export function isVariableModified(variable: TemplateVariable): boolean {
+	const builtIn = BUILT_IN_VARIABLES.find((v) => v.id === variable.id)
+	return !builtIn || JSON.stringify(builtIn) !== JSON.stringify(variable)
+}
+
+/**
+ * Applies saved edits to built-in variables and appends custom ones
+ */
+function mergeSavedVariables(savedVariables: TemplateVariable[]): TemplateVariable[] {
+	return [
+		...BUILT_IN_VARIABLES.map((variable) => ({
+			...variable,
+			...savedVariables.find((saved) => saved.id === variable.id),
+		})),
+		...savedVariables.filter((saved) => !isBuiltInVariable(saved.id)),
+	]
+}
+
 const initialState: TemplateVariablesState = {
-	variables: [
-		{
-			id: 'fullName',
-			name: 'fullName',
-			label: 'Full Name',
-			fieldType: FieldType.TEXT,
-			required: true,
-			placeholder: '[Your Full Name]',
-		},
-		{
-			id: 'email',
-			name: 'email',
-			label: 'Email',
-			fieldType: FieldType.EMAIL,
-			required: true,
-			placeholder: '[your.email@example.com]',
-		},
-		{
-			id: 'phone',
-			name: 'phone',
-			label: 'Phone',
-			fieldType: FieldType.PHONE,
-			placeholder: '[Your Phone Number]',
-		},
-		{
-			id: 'companyName',
-			name: 'companyName',
-			label: 'Company Name',
-			fieldType: FieldType.TEXT,
-			required: true,
-			placeholder: '[Company Name]',
-		},
-		{
-			id: 'techStack',
-			name: 'techStack',
-			label: 'Relevant Tech Stack',
-			fieldType: FieldType.MULTISELECT,
-			options: TECH_STACK_OPTIONS,
-			placeholder: '[Relevant Technologies]',
-		},
-		{
-			id: 'position',
-			name: 'position',
-			label: 'Position Applied For',
-			fieldType: FieldType.TEXT,
-			required: true,
-			placeholder: '[Job Position]',
-		},
-		{
-			id: 'date',
-			name: 'date',
-			label: 'Date',
-			fieldType: FieldType.DATE,
-			placeholder: '[Date]',
-		},
-		{
-			id: 'referrerName',
-			name: 'referrerName',
-			label: 'Referrer Name',
-			fieldType: FieldType.TEXT,
-			placeholder: '[Name]',
-		},
-		{
-			id: 'companyAchievement',
-			name: 'companyAchievement',
-			label: 'Company Achievement/Aspect',
-			fieldType: FieldType.TEXT,
-			placeholder: '[specific achievement or aspect of the company]',
-		},
-		{
-			id: 'studentStatus',
-			name: 'studentStatus',
-			label: 'Student Status',
-			fieldType: FieldType.TEXT,
-			placeholder: '[student/recent graduate]',
-		},
-		{
-			id: 'recipientName',
-			name: 'recipientName',
-			label: 'Recipient Name',
-			fieldType: FieldType.TEXT,
-			placeholder: '[Name/Hiring Manager]',
-		},
-		{
-			id: 'fieldIndustry',
-			name: 'fieldIndustry',
-			label: 'Field/Industry',
-			fieldType: FieldType.TEXT,
-			placeholder: '[field/industry]',
-		},
-	],
+	variables: mergeSavedVariables(loadCustomVariables()),
 }
 
 const templateVariablesSlice = createSlice({
@@ -122,11 +340,17 @@ const templateVariablesSlice = createSlice({
 			}
 		},
 		removeVariable: (state, action: PayloadAction<string>) => {
+			// Built-in variables are protected
+			if (isBuiltInVariable(action.payload)) return
 			state.variables = state.variables.filter((v) => v.id !== action.payload)
 		},
+		// Replace variables with the ones loaded from the document store
+		hydrateVariables: (state, action: PayloadAction<TemplateVariable[]>) => {
+			state.variables = mergeSavedVariables(action.payload)
+		},
 	},
 })
 
-export const { addVariable, updateVariable, removeVariable } =
+export const { addVariable, updateVariable, removeVariable, hydrateVariables } =
 	templateVariablesSlice.actions
 export default templateVariablesSlice.reducer
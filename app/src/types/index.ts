@@ -9,10 +9,52 @@ export const FieldType = {
 	NUMBER: 'number',
 	TEXTAREA: 'textarea',
 	MULTISELECT: 'multiselect',
+	SELECT: 'select',
+	URL: 'url',
+	CHECKBOX: 'checkbox', // Stored as 'true' when checked, '' otherwise
+	CURRENCY: 'currency',
+	RICHTEXT: 'richtext', // Long-form text with **bold**, _italic_ and "- " bullets
+	REPEATABLE: 'repeatable', // List of items with sub-fields, stored as a JSON string
 } as const
 
 export type FieldType = (typeof FieldType)[keyof typeof FieldType]
 
+/**
+ * Form sections a template variable can be placed in
+ */
+export const FieldGroup = {
+	APPLICATION_DETAILS: 'applicationDetails',
+	TEMPLATE_SPECIFIC: 'templateSpecific',
+	PERSONAL_INFO: 'personalInfo',
+	RECIPIENT: 'recipient', // Shown for every template; feeds the inside address and salutation
+} as const
+
+export type FieldGroup = (typeof FieldGroup)[keyof typeof FieldGroup]
+
+/**
+ * Per-variable validation rules. Dates are YYYY-MM-DD or 'today'.
+ */
+export interface ValidationRules {
+	minLength?: number
+	maxLength?: number
+	pattern?: string // Regular expression source
+	patternMessage?: string // Shown when the pattern does not match
+	allowedValues?: string[]
+	minDate?: string
+	maxDate?: string
+}
+
+/**
+ * Sub-field of a repeatable group, used as `{{name}}` inside `{{#each group}}`
+ */
+export interface SubFieldDefinition {
+	name: string
+	label: string
+	fieldType: FieldType
+	placeholder?: string
+	required?: boolean
+}
+
 /**
  * Template variable definition
  */
@@ -25,6 +67,12 @@ export interface TemplateVariable {
 	required?: boolean
 	defaultValue?: string
 	options?: string[] // For multiselect and select fields
+	group?: FieldGroup // Form section; defaults to template-specific
+	order?: number // Position within the section, lowest first
+	validation?: ValidationRules
+	currency?: string // ISO 4217 code for currency fields, defaults to USD
+	fields?: SubFieldDefinition[] // Sub-fields of repeatable groups
+	maxItems?: number // Limit for repeatable groups
 }
 
 /**
@@ -56,3 +104,112 @@ export interface BasicDetails {
 	linkedIn?: string
 	portfolio?: string
 }
+
+/**
+ * Named set of sender details, e.g. a personal name vs. a freelance brand
+ */
+export interface SenderProfile {
+	id: string
+	name: string
+	details: BasicDetails
+	signature?: string // PNG data URL drawn in the signature pad
+}
+
+/**
+ * Autosaved, in-progress letter
+ */
+export interface Draft {
+	id: string
+	name: string // Empty until renamed; the list then shows position and company
+	templateId: string
+	values: Record<string, string>
+	profileId: string // Sender profile
+	// Copy of the signature the letter was saved with, so later profile changes leave it as it was.
+	// Unset on drafts saved before signatures were kept; those use the profile's.
+	signature?: string | null
+	createdAt: string
+	updatedAt: string
+}
+
+/**
+ * Where an application stands
+ */
+export const ApplicationStatus = {
+	APPLIED: 'applied',
+	INTERVIEWING: 'interviewing',
+	OFFER: 'offer',
+	REJECTED: 'rejected',
+} as const
+
+export type ApplicationStatus = (typeof ApplicationStatus)[keyof typeof ApplicationStatus]
+
+/**
+ * Application recorded when a letter is exported
+ */
+export interface ApplicationRecord {
+	id: string
+	companyName: string
+	position: string
+	templateId: string
+	content: string // Processed letter text as exported
+	values: Record<string, string> // Form values, used to pre-fill follow-up letters
+	sentAt: string // YYYY-MM-DD
+	status: ApplicationStatus
+	followUpAt?: string // YYYY-MM-DD reminder date; unset when no follow-up is planned
+	draftId?: string // Draft the letter was exported from; re-exports update this record
+	createdAt: string
+	updatedAt: string
+}
+
+/**
+ * Severity of a template lint diagnostic
+ */
+export const DiagnosticSeverity = {
+	ERROR: 'error',
+	WARNING: 'warning',
+} as const
+
+export type DiagnosticSeverity = (typeof DiagnosticSeverity)[keyof typeof DiagnosticSeverity]
+
+/**
+ * Problem found while linting template content against registered variables
+ */
+export interface TemplateDiagnostic {
+	severity: DiagnosticSeverity
+	code:
+		| 'unknown-variable'
+		| 'undeclared-variable'
+		| 'unused-variable'
+		| 'missing-required'
+		| 'unbalanced-braces'
+		| 'unbalanced-block'
+		| 'invalid-tag'
+		| 'unknown-filter'
+		| 'invalid-loop'
+	message: string
+	line?: number
+	variable?: string
+}
+
+/**
+ * Portable, versioned bundle of templates and the variables they use
+ */
+export interface TemplatePack {
+	format: 'lettercraft-template-pack'
+	version: number
+	exportedAt: string
+	templates: Template[]
+	variables: TemplateVariable[]
+}
+
+/**
+ * How to handle an imported template whose id already exists
+ */
+export const ImportConflictStrategy = {
+	COPY: 'copy',
+	REPLACE: 'replace',
+	SKIP: 'skip',
+} as const
+
+export type ImportConflictStrategy =
+	(typeof ImportConflictStrategy)[keyof typeof ImportConflictStrategy]
@@ -0,0 +1,127 @@
+/**
+ * Builds iCalendar (RFC 5545) follow-up reminders for tracked applications
+ */
+
+import { type ApplicationRecord } from '../types'
+import { formatDateValue } from './field-validation'
+import { buildUrlWithParams } from './query-params'
+import { downloadText } from './text-download'
+
+// The follow-up template suggests writing 1-2 weeks after applying
+export const FOLLOW_UP_DELAY_DAYS = 7
+
+// The reminder fires at 9:00 on the follow-up day (relative to the all-day event's start)
+const REMINDER_TRIGGER = 'PT9H'
+
+/**
+ * Date (YYYY-MM-DD) a number of days after another
+ */
+export function addDays(value: string, days: number): string {
+	const [year, month, day] = value.split('-').map(Number)
+	return formatDateValue(new Date(year, month - 1, day + days))
+}
+
+/**
+ * Link that opens the application in the tracker
+ */
+export function getApplicationUrl(applicationId: string): string {
+	return buildUrlWithParams(window.location.pathname, { application: applicationId })
+}
+
+/**
+ * Escapes a TEXT property value (RFC 5545 §3.3.11)
+ */
+function escapeText(value: string): string {
+	return value
+		.replace(/\\/g, '\\\\')
+		.replace(/;/g, '\\;')
+		.replace(/,/g, '\\,')
+		.replace(/\r?\n/g, '\\n')
+}
+
+/**
+ * Folds a content line to 75 octets, continuing on lines that start with a space (RFC 5545 §3.1)
+ */
+function foldLine(line: string): string {
+	const encoder = new TextEncoder()
+	const parts: string[] = []
+	let current = ''
+	let currentBytes = 0
+
+	for (const char of line) {
+		const charBytes = encoder.encode(char).length
+		// Continuation lines lose one octet to the leading space
+		const limit = parts.length === 0 ? 75 : 74
+		if (currentBytes + charBytes > limit) {
+			parts.push(current)
+			current = ''
+			currentBytes = 0
+		}
+		current += char
+		currentBytes += charBytes
+	}
+	parts.push(current)
+
+	return parts.join('\r\n ')
+}
+
+function formatIcsDate(value: string): string {
+	return value.replace(/-/g, '')
+}
+
+function formatIcsTimestamp(date: Date): string {
+	return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '')
+}
+
+/**
+ * Builds an all-day follow-up event with a display alarm on the morning of the follow-up date
+ */
+export function createFollowUpEvent(application: ApplicationRecord, followUpDate: string): string {
+	const title = [application.position, application.companyName].filter(Boolean).join(' at ')
+	const url = getApplicationUrl(application.id)
+	const summary = `Follow up: ${title || 'job application'}`
+	const description = [
+		`Application sent on ${application.sentAt}.`,
+		'Send a follow-up letter if you have not heard back.',
+		`Open the application: ${url}`,
+	].join('\n')
+
+	const lines = [
+		'BEGIN:VCALENDAR',
+		'VERSION:2.0',
+		'PRODID:-//LetterCraft//Follow-up Reminder//EN',
+		'CALSCALE:GREGORIAN',
+		'METHOD:PUBLISH',
+		'BEGIN:VEVENT',
+		`UID:${application.id}-follow-up@lettercraft`,
+		`DTSTAMP:${formatIcsTimestamp(new Date())}`,
+		`DTSTART;VALUE=DATE:${formatIcsDate(followUpDate)}`,
+		`DTEND;VALUE=DATE:${formatIcsDate(addDays(followUpDate, 1))}`,
+		`SUMMARY:${escapeText(summary)}`,
+		`DESCRIPTION:${escapeText(description)}`,
+		`URL:${url}`,
+		'TRANSP:TRANSPARENT',
+		'BEGIN:VALARM',
+		'ACTION:DISPLAY',
+		`TRIGGER:${REMINDER_TRIGGER}`,
+		`DESCRIPTION:${escapeText(summary)}`,
+		'END:VALARM',
+		'END:VEVENT',
+		'END:VCALENDAR',
+	]
+
+	// Content lines end with CRLF, including the last one
+	return lines.map(foldLine).join('\r\n') + '\r\n'
+}
+
+/**
+ * Downloads the follow-up reminder for an application as an .ics file
+ */
+export function downloadFollowUpEvent(application: ApplicationRecord, followUpDate: string): void {
+	const company = application.companyName || application.position || 'application'
+	downloadText(
+		createFollowUpEvent(application, followUpDate),
+		`follow-up-${company}.ics`,
+		'text/calendar'
+	)
+}
@@ -0,0 +1,122 @@
+/**
+ * IndexedDB persistence for documents that outgrow localStorage. Every value
+ * is stored under its STORAGE_KEYS key and validated on read. When IndexedDB
+ * is unavailable, reads and writes fall back to local-storage.ts.
+ *
+ * A localStorage copy is only kept while it is newer than the IndexedDB copy:
+ * it is removed whenever a write to IndexedDB succeeds, and on read it replaces
+ * the IndexedDB copy.
+ */
+
+import {
+	isValidStoredValue,
+	migrateStorage,
+	readStorage,
+	removeStorage,
+	writeStorage,
+	type StorageKey,
+	type StorageSchema,
+} from './local-storage'
+
+const DB_NAME = 'lettercraft'
+const DB_VERSION = 1
+const DOCUMENTS_STORE = 'documents'
+
+let dbPromise: Promise<IDBDatabase | null> | null = null
+
+/**
+ * Opens the database once per session. Resolves to null when IndexedDB cannot be used.
+ */
+function openDatabase(): Promise<IDBDatabase | null> {
+	if (dbPromise) return dbPromise
+
+	dbPromise = new Promise((resolve) => {
+		if (typeof indexedDB === 'undefined') {
+			resolve(null)
+			return
+		}
+
+		try {
+			const request = indexedDB.open(DB_NAME, DB_VERSION)
+			request.onupgradeneeded = () => {
+				if (!request.result.objectStoreNames.contains(DOCUMENTS_STORE)) {
+					request.result.createObjectStore(DOCUMENTS_STORE)
+				}
+			}
+			request.onsuccess = () => resolve(request.result)
+			request.onerror = () => {
+				console.error('Failed to open IndexedDB, using localStorage instead:', request.error)
+				resolve(null)
+			}
+			// Another tab holds an older version open
+			request.onblocked = () => resolve(null)
+		} catch (err) {
+			console.error('Failed to open IndexedDB, using localStorage instead:', err)
+			resolve(null)
+		}
+	})
+
+	return dbPromise
+}
+
+function runRequest<T>(
+	db: IDBDatabase,
+	mode: IDBTransactionMode,
+	operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+	return new Promise((resolve, reject) => {
+		const transaction = db.transaction(DOCUMENTS_STORE, mode)
+		const request = operation(transaction.objectStore(DOCUMENTS_STORE))
+		transaction.oncomplete = () => resolve(request.result)
+		transaction.onerror = () => reject(transaction.error)
+		transaction.onabort = () => reject(transaction.error)
+	})
+}
+
+/**
+ * Reads a document. A localStorage copy (data saved before IndexedDB was used,
+ * or by a fallback write) is newer, so it is moved into IndexedDB and returned.
+ */
+export async function getDocument<K extends StorageKey>(key: K): Promise<StorageSchema[K] | null> {
+	migrateStorage()
+	const db = await openDatabase()
+	if (!db) return readStorage(key)
+
+	try {
+		const newer = readStorage(key)
+		if (newer !== null) {
+			await runRequest(db, 'readwrite', (store) => store.put(newer, key))
+			removeStorage(key)
+			return newer
+		}
+
+		const data = await runRequest<unknown>(db, 'readonly', (store) => store.get(key))
+		if (data === undefined) return null
+		if (isValidStoredValue(key, data)) return data
+		console.error(`Stored document "${key}" is corrupt and was ignored.`)
+		return null
+	} catch (err) {
+		console.error(`Failed to read "${key}" from IndexedDB:`, err)
+		return readStorage(key)
+	}
+}
+
+/**
+ * Writes a document
+ */
+export async function putDocument<K extends StorageKey>(key: K, data: StorageSchema[K]): Promise<void> {
+	const db = await openDatabase()
+	if (!db) {
+		writeStorage(key, data)
+		return
+	}
+
+	try {
+		await runRequest(db, 'readwrite', (store) => store.put(data, key))
+		// An older fallback copy must not win over this write on the next read
+		removeStorage(key)
+	} catch (err) {
+		console.error(`Failed to write "${key}" to IndexedDB, using localStorage instead:`, err)
+		writeStorage(key, data)
+	}
+}
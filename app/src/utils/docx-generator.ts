@@ -0,0 +1,358 @@
+/**
+ * Word (.docx) export. Builds the Office Open XML parts of a one-section document
+ * with the same layout as generatePDF: sender block, date, inside address, body
+ * paragraphs and signature, then zips them in the browser.
+ */
+
+import {
+	type PDFOptions,
+	formatLetterDate,
+	getSenderLines,
+	removeRepeatedContactLines,
+} from './pdf-generator'
+import { buildInsideAddress } from './recipient'
+import { downloadBlob } from './text-download'
+import { createZip } from './zip'
+
+const DOCX_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
+
+const NAMESPACES = [
+	'xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"',
+	'xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"',
+	'xmlns:wp="http://schemas.openxmlformats.org/drawingml/2006/wordprocessingDrawing"',
+	'xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main"',
+	'xmlns:pic="http://schemas.openxmlformats.org/drawingml/2006/picture"',
+].join(' ')
+
+const SIGNATURE_RELATIONSHIP_ID = 'rIdSignature'
+
+// Same page and spacing as generatePDF (A4, in mm)
+const PAGE_WIDTH = 210
+const PAGE_HEIGHT = 297
+const TOP_MARGIN = 30
+const SIDE_MARGIN = 25
+const BOTTOM_MARGIN = 25
+const LINE_HEIGHT = 6
+const PARAGRAPH_SPACING = 7
+
+// Signature image bounds, as in generatePDF
+const SIGNATURE_MAX_WIDTH = 100
+const SIGNATURE_MAX_HEIGHT = 30
+const SIGNATURE_MIN_WIDTH = 50
+const SIGNATURE_FALLBACK_RATIO = 200 / 800 // Signature pad height/width
+
+const CLOSING_PATTERN = /^(Sincerely|Best regards|Regards|Yours sincerely|Yours truly|Respectfully),?$/i
+const SALUTATION_PATTERN = /^Dear\s+(.+?)[:,]?$/i
+
+interface RunStyle {
+	font: 'sans' | 'serif' // Arial for the sender block, Times New Roman for the letter
+	size: number // pt
+	color: string // RGB hex
+	bold?: boolean
+}
+
+interface ParagraphSpacing {
+	line: number // Minimum line height in mm
+	before?: number // mm
+	after?: number // mm
+}
+
+interface SignatureImage {
+	data: Uint8Array
+	width: number // mm
+	height: number // mm
+}
+
+const SENDER_NAME: RunStyle = { font: 'sans', size: 11, color: '1E1E1E', bold: true }
+const SENDER_LINE: RunStyle = { font: 'sans', size: 10, color: '464646' }
+const HEADING_TEXT: RunStyle = { font: 'serif', size: 11, color: '282828' }
+const BODY_TEXT: RunStyle = { font: 'serif', size: 11, color: '141414' }
+const PLACEHOLDER_TEXT: RunStyle = { font: 'serif', size: 11, color: '646464' }
+const SIGNATURE_NAME: RunStyle = { font: 'serif', size: 11, color: '1E1E1E' }
+
+function mmToTwips(mm: number): number {
+	return Math.round((mm * 1440) / 25.4)
+}
+
+function mmToEmu(mm: number): number {
+	return Math.round(mm * 36000)
+}
+
+// Tab, line feed and carriage return are the only control characters XML 1.0 allows
+function isXmlCharacter(char: string): boolean {
+	const code = char.charCodeAt(0)
+	return code >= 0x20 || code === 0x09 || code === 0x0a || code === 0x0d
+}
+
+function escapeXml(value: string): string {
+	return Array.from(value)
+		.filter(isXmlCharacter)
+		.join('')
+		.replace(/&/g, '&amp;')
+		.replace(/</g, '&lt;')
+		.replace(/>/g, '&gt;')
+		.replace(/"/g, '&quot;')
+}
+
+function run(text: string, style: RunStyle): string {
+	const font = style.font === 'sans' ? 'Arial' : 'Times New Roman'
+	const properties = [
+		`<w:rFonts w:ascii="${font}" w:hAnsi="${font}" w:cs="${font}"/>`,
+		style.bold ? '<w:b/>' : '',
+		`<w:color w:val="${style.color}"/>`,
+		`<w:sz w:val="${style.size * 2}"/>`,
+	].join('')
+	return `<w:r><w:rPr>${properties}</w:rPr><w:t xml:space="preserve">${escapeXml(text)}</w:t></w:r>`
+}
+
+function paragraph(content: string, spacing: ParagraphSpacing): string {
+	const attributes = [
+		`w:before="${mmToTwips(spacing.before ?? 0)}"`,
+		`w:after="${mmToTwips(spacing.after ?? 0)}"`,
+		`w:line="${mmToTwips(spacing.line)}"`,
+		'w:lineRule="atLeast"',
+	].join(' ')
+	return `<w:p><w:pPr><w:spacing ${attributes}/></w:pPr>${content}</w:p>`
+}
+
+function drawing(image: SignatureImage): string {
+	const cx = mmToEmu(image.width)
+	const cy = mmToEmu(image.height)
+	return [
+		'<w:r><w:drawing>',
+		'<wp:inline distT="0" distB="0" distL="0" distR="0">',
+		`<wp:extent cx="${cx}" cy="${cy}"/>`,
+		'<wp:docPr id="1" name="Signature" descr="Signature"/>',
+		'<wp:cNvGraphicFramePr><a:graphicFrameLocks noChangeAspect="1"/></wp:cNvGraphicFramePr>',
+		'<a:graphic><a:graphicData uri="http://schemas.openxmlformats.org/drawingml/2006/picture">',
+		'<pic:pic>',
+		'<pic:nvPicPr><pic:cNvPr id="0" name="signature.png"/><pic:cNvPicPr/></pic:nvPicPr>',
+		`<pic:blipFill><a:blip r:embed="${SIGNATURE_RELATIONSHIP_ID}"/><a:stretch><a:fillRect/></a:stretch></pic:blipFill>`,
+		`<pic:spPr><a:xfrm><a:off x="0" y="0"/><a:ext cx="${cx}" cy="${cy}"/></a:xfrm>`,
+		'<a:prstGeom prst="rect"><a:avLst/></a:prstGeom></pic:spPr>',
+		'</pic:pic>',
+		'</a:graphicData></a:graphic>',
+		'</wp:inline>',
+		'</w:drawing></w:r>',
+	].join('')
+}
+
+/**
+ * Natural height/width ratio of an image, or null when it can't be loaded
+ */
+function getImageRatio(src: string): Promise<number | null> {
+	return new Promise((resolve) => {
+		const img = new Image()
+		img.onload = () => resolve(img.naturalWidth > 0 ? img.naturalHeight / img.naturalWidth : null)
+		img.onerror = () => resolve(null)
+		img.src = src
+	})
+}
+
+/**
+ * Decodes the signature PNG and fits it to the same bounds as the PDF
+ */
+async function loadSignature(signature: string): Promise<SignatureImage | null> {
+	const match = /^data:image\/png;base64,(.+)$/.exec(signature.trim())
+	if (!match) return null
+
+	const ratio = (await getImageRatio(signature)) ?? SIGNATURE_FALLBACK_RATIO
+	let width = SIGNATURE_MAX_WIDTH
+	let height = width * ratio
+	if (height > SIGNATURE_MAX_HEIGHT) {
+		height = SIGNATURE_MAX_HEIGHT
+		width = height / ratio
+	}
+	if (width < SIGNATURE_MIN_WIDTH) {
+		width = SIGNATURE_MIN_WIDTH
+		height = width * ratio
+	}
+
+	return { data: Uint8Array.from(atob(match[1]), (char) => char.charCodeAt(0)), width, height }
+}
+
+/**
+ * Body paragraphs of word/document.xml; one Word paragraph per content line, as the PDF lays them out
+ */
+function buildBody(content: string, options: PDFOptions, signature: SignatureImage | null): string[] {
+	const body: string[] = []
+
+	// Sender information (top left)
+	const senderLines = getSenderLines(options)
+	if (options.fullName || senderLines.length > 0) {
+		if (options.fullName) {
+			body.push(
+				paragraph(run(options.fullName, SENDER_NAME), {
+					line: LINE_HEIGHT + 1.5,
+					after: senderLines.length === 0 ? PARAGRAPH_SPACING + 3 : 0,
+				})
+			)
+		}
+		senderLines.forEach((line, index) => {
+			const isLast = index === senderLines.length - 1
+			body.push(
+				paragraph(run(line, SENDER_LINE), {
+					line: LINE_HEIGHT - 0.5,
+					after: isLast ? PARAGRAPH_SPACING + 3 : 0,
+				})
+			)
+		})
+	}
+
+	// Date, followed by the inside address when there is one
+	const insideAddress = buildInsideAddress(options.recipient ?? { companyName: options.companyName })
+	body.push(
+		paragraph(run(formatLetterDate(new Date()), HEADING_TEXT), {
+			line: LINE_HEIGHT,
+			after: PARAGRAPH_SPACING + 5 + (insideAddress.length === 0 ? PARAGRAPH_SPACING : 0),
+		})
+	)
+	insideAddress.forEach((line, index) => {
+		const isLast = index === insideAddress.length - 1
+		body.push(paragraph(run(line, HEADING_TEXT), { line: LINE_HEIGHT, after: isLast ? PARAGRAPH_SPACING - 1 : 0 }))
+	})
+
+	// Letter body
+	const cleanedContent = removeRepeatedContactLines(content, options)
+	const paragraphs = cleanedContent.split(/\n\s*\n/).filter((p) => p.trim())
+	paragraphs.forEach((text, paraIndex) => {
+		const lines = text.split('\n').map((l) => l.trim()).filter((l) => l)
+		lines.forEach((line, lineIndex) => {
+			const isClosing = CLOSING_PATTERN.test(line)
+			const isSalutation = SALUTATION_PATTERN.test(line)
+			const isLastLine = lineIndex === lines.length - 1
+			let before = 0
+			if (isSalutation && paraIndex === 0) before += PARAGRAPH_SPACING * 0.5
+			if (isClosing) before += PARAGRAPH_SPACING + 2
+			let after = 0
+			if (isClosing) after += LINE_HEIGHT * 2.5
+			if (isLastLine && paraIndex < paragraphs.length - 1) after += PARAGRAPH_SPACING + 1
+
+			// Unfilled [placeholders] are greyed out, as in the PDF
+			const style = /\[.*?\]/.test(line) ? PLACEHOLDER_TEXT : BODY_TEXT
+			body.push(paragraph(run(line, style), { line: LINE_HEIGHT, before, after }))
+		})
+	})
+
+	// Signature block after the closing: e-signature image, then the typed name
+	const nameLower = options.fullName?.toLowerCase() || ''
+	const hasNameInContent = nameLower && cleanedContent.toLowerCase().includes(nameLower)
+	const lastLines = cleanedContent.split('\n').filter((l) => l.trim())
+	const hasClosing = CLOSING_PATTERN.test(lastLines[lastLines.length - 1]?.trim() || '')
+	if (options.fullName && hasClosing && !hasNameInContent) {
+		if (signature) {
+			body.push(paragraph(drawing(signature), { line: LINE_HEIGHT, before: LINE_HEIGHT * 1.5 }))
+			body.push(paragraph(run(options.fullName, SIGNATURE_NAME), { line: LINE_HEIGHT, before: LINE_HEIGHT * 1.5 }))
+		} else {
+			// Space for a handwritten signature
+			body.push(paragraph(run(options.fullName, SIGNATURE_NAME), { line: LINE_HEIGHT, before: LINE_HEIGHT * 3.5 }))
+		}
+	}
+
+	return body
+}
+
+function buildDocumentXml(body: string[]): string {
+	const section = [
+		'<w:sectPr>',
+		`<w:pgSz w:w="${mmToTwips(PAGE_WIDTH)}" w:h="${mmToTwips(PAGE_HEIGHT)}"/>`,
+		`<w:pgMar w:top="${mmToTwips(TOP_MARGIN)}" w:right="${mmToTwips(SIDE_MARGIN)}" w:bottom="${mmToTwips(BOTTOM_MARGIN)}" w:left="${mmToTwips(SIDE_MARGIN)}" w:header="708" w:footer="708" w:gutter="0"/>`,
+		'</w:sectPr>',
+	].join('')
+	return [
+		'<?xml version="1.0" encoding="UTF-8" standalone="yes"?>',
+		`<w:document ${NAMESPACES}><w:body>${body.join('')}${section}</w:body></w:document>`,
+	].join('\n')
+}
+
+const STYLES_XML = [
+	'<?xml version="1.0" encoding="UTF-8" standalone="yes"?>',
+	'<w:styles xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main">',
+	'<w:docDefaults>',
+	'<w:rPrDefault><w:rPr><w:rFonts w:ascii="Times New Roman" w:hAnsi="Times New Roman" w:cs="Times New Roman"/><w:sz w:val="22"/><w:lang w:val="en-US"/></w:rPr></w:rPrDefault>',
+	'<w:pPrDefault><w:pPr><w:spacing w:after="0" w:line="240" w:lineRule="auto"/></w:pPr></w:pPrDefault>',
+	'</w:docDefaults>',
+	'<w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/><w:qFormat/></w:style>',
+	'</w:styles>',
+].join('\n')
+
+const CONTENT_TYPES_XML = [
+	'<?xml version="1.0" encoding="UTF-8" standalone="yes"?>',
+	'<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">',
+	'<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>',
+	'<Default Extension="xml" ContentType="application/xml"/>',
+	'<Default Extension="png" ContentType="image/png"/>',
+	'<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>',
+	'<Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/>',
+	'<Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/>',
+	'</Types>',
+].join('\n')
+
+const PACKAGE_RELS_XML = [
+	'<?xml version="1.0" encoding="UTF-8" standalone="yes"?>',
+	'<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">',
+	'<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/>',
+	'<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties" Target="docProps/core.xml"/>',
+	'</Relationships>',
+].join('\n')
+
+function buildDocumentRelsXml(hasSignature: boolean): string {
+	return [
+		'<?xml version="1.0" encoding="UTF-8" standalone="yes"?>',
+		'<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">',
+		'<Relationship Id="rIdStyles" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>',
+		hasSignature
+			? `<Relationship Id="${SIGNATURE_RELATIONSHIP_ID}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/image" Target="media/signature.png"/>`
+			: '',
+		'</Relationships>',
+	]
+		.filter(Boolean)
+		.join('\n')
+}
+
+function buildCorePropertiesXml(options: PDFOptions): string {
+	const title = ['Cover Letter', [options.position, options.companyName].filter(Boolean).join(' at ')]
+		.filter(Boolean)
+		.join(' - ')
+	const created = new Date().toISOString().replace(/\.\d{3}/, '')
+	return [
+		'<?xml version="1.0" encoding="UTF-8" standalone="yes"?>',
+		'<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcterms="http://purl.org/dc/terms/" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">',
+		`<dc:title>${escapeXml(title)}</dc:title>`,
+		`<dc:creator>${escapeXml(options.fullName ?? '')}</dc:creator>`,
+		`<dcterms:created xsi:type="dcterms:W3CDTF">${created}</dcterms:created>`,
+		'</cp:coreProperties>',
+	].join('\n')
+}
+
+/**
+ * Builds the .docx package for a letter
+ */
+export async function createDOCX(content: string, options: PDFOptions = {}): Promise<Blob> {
+	const signature = options.signature ? await loadSignature(options.signature) : null
+	const body = buildBody(content, options, signature)
+
+	return createZip(
+		[
+			{ path: '[Content_Types].xml', data: CONTENT_TYPES_XML },
+			{ path: '_rels/.rels', data: PACKAGE_RELS_XML },
+			{ path: 'docProps/core.xml', data: buildCorePropertiesXml(options) },
+			{ path: 'word/document.xml', data: buildDocumentXml(body) },
+			{ path: 'word/styles.xml', data: STYLES_XML },
+			{ path: 'word/_rels/document.xml.rels', data: buildDocumentRelsXml(Boolean(signature)) },
+			...(signature ? [{ path: 'word/media/signature.png', data: signature.data }] : []),
+		],
+		DOCX_TYPE
+	)
+}
+
+/**
+ * Generates a Word cover letter with the same layout as the PDF export
+ */
+export async function generateDOCX(
+	content: string,
+	filename: string = 'cover-letter.docx',
+	options: PDFOptions = {}
+): Promise<void> {
+	downloadBlob(await createDOCX(content, options), filename)
+}
@@ -0,0 +1,89 @@
+import { type TemplateVariable, FieldType } from '../types'
+import { summarizeGroupItems } from './repeatable-values'
+
+export const DEFAULT_CURRENCY = 'USD'
+
+/**
+ * Formats an amount in the user's locale, e.g. 85 gives "$85.00" in en-US
+ */
+export function formatCurrency(value: string, currency: string = DEFAULT_CURRENCY): string {
+	const amount = Number(value.replace(/,/g, ''))
+	if (!value.trim() || !Number.isFinite(amount)) return value
+	try {
+		return new Intl.NumberFormat(undefined, { style: 'currency', currency }).format(amount)
+	} catch (err) {
+		// Unknown currency code
+		console.error('Failed to format currency:', err)
+		return value
+	}
+}
+
+/**
+ * Converts rich text markup to plain letter text: bullets become "•" and
+ * emphasis markers are removed
+ */
+export function formatRichText(value: string): string {
+	return value
+		.replace(/\r\n/g, '\n')
+		.split('\n')
+		.map((line) =>
+			line
+				.replace(/^(\s*)[-*]\s+/, '$1• ')
+				.replace(/\*\*(.+?)\*\*/g, '$1')
+				.replace(/(^|\W)_(.+?)_(?=\W|$)/g, '$1$2')
+				.trimEnd()
+		)
+		.join('\n')
+		.replace(/\n{3,}/g, '\n\n')
+}
+
+/**
+ * Formats a raw form value for the letter according to the variable's field type
+ */
+export function formatFieldValue(variable: TemplateVariable, value: string): string {
+	switch (variable.fieldType) {
+		case FieldType.CHECKBOX:
+			return value === 'true' ? 'Yes' : 'No'
+		case FieldType.CURRENCY:
+			return formatCurrency(value, variable.currency)
+		case FieldType.RICHTEXT:
+			return formatRichText(value)
+		case FieldType.REPEATABLE:
+			return summarizeGroupItems(variable, value)
+		default:
+			return value
+	}
+}
+
+export type RichTextFormat = 'bold' | 'italic' | 'bullet'
+
+/**
+ * Applies rich text markup to the selected range and returns the new value
+ * and selection
+ */
+export function applyRichTextFormat(
+	value: string,
+	start: number,
+	end: number,
+	format: RichTextFormat
+): { value: string; start: number; end: number } {
+	if (format === 'bullet') {
+		// Prefix every selected line with "- "
+		const lineStart = value.lastIndexOf('\n', start - 1) + 1
+		const lines = value.slice(lineStart, end).split('\n')
+		const bulleted = lines.map((line) => (/^\s*[-*]\s/.test(line) ? line : `- ${line}`)).join('\n')
+		return {
+			value: value.slice(0, lineStart) + bulleted + value.slice(end),
+			start: lineStart,
+			end: lineStart + bulleted.length,
+		}
+	}
+
+	const marker = format === 'bold' ? '**' : '_'
+	const selected = value.slice(start, end)
+	return {
+		value: value.slice(0, start) + marker + selected + marker + value.slice(end),
+		start: start + marker.length,
+		end: end + marker.length,
+	}
+}
@@ -0,0 +1,181 @@
+import { type TemplateVariable, FieldType } from '../types'
+import { parseGroupItems } from './repeatable-values'
+
+const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+const PHONE_REGEX = /^[\d\s\-+()]+$/
+
+/**
+ * Accepts absolute http(s) URLs and bare domains such as github.com/name
+ */
+function isValidUrl(value: string): boolean {
+	if (/\s/.test(value)) return false
+	try {
+		const url = new URL(/^[a-z][a-z\d+.-]*:/i.test(value) ? value : `https://${value}`)
+		return (url.protocol === 'http:' || url.protocol === 'https:') && url.hostname.includes('.')
+	} catch {
+		return false
+	}
+}
+
+/**
+ * Formats a date as YYYY-MM-DD in local time, the format of date fields
+ */
+export function formatDateValue(date: Date): string {
+	const month = String(date.getMonth() + 1).padStart(2, '0')
+	const day = String(date.getDate()).padStart(2, '0')
+	return `${date.getFullYear()}-${month}-${day}`
+}
+
+/**
+ * Resolves a rule date ('today' or YYYY-MM-DD) to a YYYY-MM-DD string
+ */
+function resolveRuleDate(value: string): string {
+	return value === 'today' ? formatDateValue(new Date()) : value
+}
+
+function formatRuleDate(value: string): string {
+	if (value === 'today') return 'today'
+	const [year, month, day] = value.split('-').map(Number)
+	const date = new Date(year, month - 1, day)
+	return isNaN(date.getTime())
+		? value
+		: date.toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' })
+}
+
+/**
+ * Validates a single field value against its variable definition.
+ * Returns an error message, or null when the value is valid.
+ */
+export function validateField(variable: TemplateVariable, value: string): string | null {
+	const rules = variable.validation ?? {}
+	const trimmed = value.trim()
+
+	if (variable.fieldType === FieldType.REPEATABLE) {
+		const items = parseGroupItems(value)
+		if (variable.required && items.length === 0) {
+			return `${variable.label} needs at least one entry`
+		}
+		if (variable.maxItems !== undefined && items.length > variable.maxItems) {
+			return `${variable.label} allows at most ${variable.maxItems} entries`
+		}
+		for (const [index, item] of items.entries()) {
+			for (const field of variable.fields ?? []) {
+				const error = validateField({ ...field, id: field.name }, item[field.name] || '')
+				if (error) return `${variable.label} #${index + 1}: ${error}`
+			}
+		}
+		return null
+	}
+
+	if (variable.fieldType === FieldType.CHECKBOX) {
+		return variable.required && value !== 'true' ? `${variable.label} must be checked` : null
+	}
+
+	if (variable.fieldType === FieldType.MULTISELECT) {
+		const selectedValues = value ? value.split(', ').filter(Boolean) : []
+		if (variable.required && selectedValues.length === 0) {
+			return `${variable.label} is required`
+		}
+		const notAllowed = rules.allowedValues
+			? selectedValues.filter((selected) => !rules.allowedValues!.includes(selected))
+			: []
+		if (notAllowed.length > 0) {
+			return `${notAllowed.join(', ')} ${notAllowed.length === 1 ? 'is' : 'are'} not allowed for ${variable.label}`
+		}
+		return null
+	}
+
+	if (variable.required && !trimmed) {
+		return `${variable.label} is required`
+	}
+
+	if (!trimmed) return null
+
+	if (variable.fieldType === FieldType.EMAIL && !EMAIL_REGEX.test(trimmed)) {
+		return 'Please enter a valid email address'
+	}
+
+	if (
+		variable.fieldType === FieldType.PHONE &&
+		(!PHONE_REGEX.test(trimmed) || trimmed.replace(/\D/g, '').length < 10)
+	) {
+		return 'Please enter a valid phone number'
+	}
+
+	if (variable.fieldType === FieldType.URL && !isValidUrl(trimmed)) {
+		return 'Please enter a valid URL'
+	}
+
+	if (
+		(variable.fieldType === FieldType.NUMBER || variable.fieldType === FieldType.CURRENCY) &&
+		!Number.isFinite(Number(trimmed.replace(/,/g, '')))
+	) {
+		return variable.fieldType === FieldType.CURRENCY
+			? 'Please enter a valid amount'
+			: 'Please enter a valid number'
+	}
+
+	if (
+		variable.fieldType === FieldType.SELECT &&
+		variable.options &&
+		variable.options.length > 0 &&
+		!variable.options.includes(trimmed)
+	) {
+		return `Please choose one of the options for ${variable.label}`
+	}
+
+	if (rules.minLength !== undefined && trimmed.length < rules.minLength) {
+		return `${variable.label} must be at least ${rules.minLength} characters`
+	}
+
+	if (rules.maxLength !== undefined && trimmed.length > rules.maxLength) {
+		return `${variable.label} must be at most ${rules.maxLength} characters`
+	}
+
+	if (rules.pattern) {
+		try {
+			if (!new RegExp(rules.pattern).test(trimmed)) {
+				return rules.patternMessage || `${variable.label} is not in the expected format`
+			}
+		} catch (err) {
+			console.error(`Invalid validation pattern for ${variable.id}:`, err)
+		}
+	}
+
+	if (rules.allowedValues && rules.allowedValues.length > 0 && !rules.allowedValues.includes(trimmed)) {
+		return `${variable.label} must be one of: ${rules.allowedValues.join(', ')}`
+	}
+
+	if (variable.fieldType === FieldType.DATE) {
+		// Date inputs produce YYYY-MM-DD, which compares correctly as a string
+		if (rules.minDate && trimmed < resolveRuleDate(rules.minDate)) {
+			return rules.minDate === 'today'
+				? `${variable.label} cannot be in the past`
+				: `${variable.label} cannot be before ${formatRuleDate(rules.minDate)}`
+		}
+		if (rules.maxDate && trimmed > resolveRuleDate(rules.maxDate)) {
+			return rules.maxDate === 'today'
+				? `${variable.label} cannot be in the future`
+				: `${variable.label} cannot be after ${formatRuleDate(rules.maxDate)}`
+		}
+	}
+
+	return null
+}
+
+/**
+ * Validates several fields at once. Returns error messages keyed by variable id.
+ */
+export function validateFields(
+	variables: TemplateVariable[],
+	values: Record<string, string>
+): Record<string, string> {
+	const errors: Record<string, string> = {}
+	variables.forEach((variable) => {
+		const error = validateField(variable, values[variable.id] || '')
+		if (error) {
+			errors[variable.id] = error
+		}
+	})
+	return errors
+}
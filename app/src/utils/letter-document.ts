@@ -0,0 +1,156 @@
+/**
+ * Structured letter shared by the Markdown and HTML exports. Built from the
+ * template's rendered segments, so exports know which text is a filled-in value
+ * or an unfilled placeholder without re-parsing the processed string.
+ */
+
+import { type Template } from '../types'
+import { formatDateValue } from './field-validation'
+import { type PDFOptions, formatLetterDate, getSenderLines, repeatsSenderContact } from './pdf-generator'
+import { buildInsideAddress } from './recipient'
+import { type ContentSegment } from './template-processor'
+
+const CLOSING_PATTERN = /^(Sincerely|Best regards|Regards|Yours sincerely|Yours truly|Respectfully),?$/i
+const SALUTATION_PATTERN = /^Dear\s+(.+?)[:,]?$/i
+
+/**
+ * Role of a paragraph in the letter body
+ */
+export const LetterParagraphKind = {
+	SALUTATION: 'salutation',
+	BODY: 'body',
+	CLOSING: 'closing',
+} as const
+
+export type LetterParagraphKind = (typeof LetterParagraphKind)[keyof typeof LetterParagraphKind]
+
+/**
+ * One line of a paragraph; lines are separated by line breaks, not blank lines
+ */
+export type LetterLine = ContentSegment[]
+
+export interface LetterParagraph {
+	kind: LetterParagraphKind
+	lines: LetterLine[]
+}
+
+export interface LetterDocument {
+	meta: {
+		companyName: string
+		position: string
+		template: string // Template name
+		date: string // YYYY-MM-DD
+	}
+	sender: {
+		name: string
+		lines: string[] // Address, phone, email and links, as in the PDF header
+	}
+	date: string // Written out, e.g. "March 5, 2025"
+	insideAddress: string[]
+	paragraphs: LetterParagraph[]
+	signature: {
+		name: string
+		image: string | null // PNG data URL
+	} | null // Only added after a closing that isn't already followed by the name
+}
+
+function lineText(line: LetterLine): string {
+	return line.map((segment) => segment.value).join('')
+}
+
+/**
+ * Splits segments into lines at newlines, trimming each line like the PDF does
+ */
+function splitLines(segments: ContentSegment[]): LetterLine[] {
+	const lines: LetterLine[] = [[]]
+	segments.forEach((segment) => {
+		segment.value.split(/\r?\n/).forEach((part, index) => {
+			if (index > 0) lines.push([])
+			if (part) lines[lines.length - 1].push({ ...segment, value: part })
+		})
+	})
+
+	return lines.map((line) => {
+		const trimmed = line.map((segment) => ({ ...segment }))
+		if (trimmed.length > 0) {
+			trimmed[0].value = trimmed[0].value.trimStart()
+			trimmed[trimmed.length - 1].value = trimmed[trimmed.length - 1].value.trimEnd()
+		}
+		return trimmed.filter((segment) => segment.value)
+	})
+}
+
+/**
+ * Groups lines into paragraphs at blank lines
+ */
+function groupParagraphs(lines: LetterLine[]): LetterLine[][] {
+	const paragraphs: LetterLine[][] = []
+	let current: LetterLine[] = []
+	lines.forEach((line) => {
+		if (line.length > 0) {
+			current.push(line)
+		} else if (current.length > 0) {
+			paragraphs.push(current)
+			current = []
+		}
+	})
+	if (current.length > 0) paragraphs.push(current)
+	return paragraphs
+}
+
+function getParagraphKind(lines: LetterLine[]): LetterParagraphKind {
+	const firstLine = lineText(lines[0])
+	if (CLOSING_PATTERN.test(firstLine)) return LetterParagraphKind.CLOSING
+	if (lines.length === 1 && SALUTATION_PATTERN.test(firstLine)) return LetterParagraphKind.SALUTATION
+	return LetterParagraphKind.BODY
+}
+
+/**
+ * Builds the letter from rendered template segments and the same sender and recipient options as the PDF
+ */
+export function buildLetterDocument(
+	segments: ContentSegment[],
+	template: Pick<Template, 'name'>,
+	options: PDFOptions = {}
+): LetterDocument {
+	const senderLines = getSenderLines(options)
+	let lines = splitLines(segments)
+
+	// Contact lines after the closing are already in the sender block
+	const closingIndex = lines.findIndex((line) => CLOSING_PATTERN.test(lineText(line)))
+	if (closingIndex >= 0 && (options.fullName || senderLines.length > 0)) {
+		lines = [
+			...lines.slice(0, closingIndex + 1),
+			...lines
+				.slice(closingIndex + 1)
+				.filter((line) => line.length > 0 && !repeatsSenderContact(lineText(line), options)),
+		]
+	}
+
+	const paragraphs = groupParagraphs(lines).map((paragraphLines) => ({
+		kind: getParagraphKind(paragraphLines),
+		lines: paragraphLines,
+	}))
+
+	const bodyText = lines.map(lineText).join('\n').toLowerCase()
+	const lastLine = lines.filter((line) => line.length > 0).pop()
+	const endsWithClosing = lastLine ? CLOSING_PATTERN.test(lineText(lastLine)) : false
+	const fullName = options.fullName?.trim() ?? ''
+
+	return {
+		meta: {
+			companyName: options.companyName?.trim() ?? '',
+			position: options.position?.trim() ?? '',
+			template: template.name,
+			date: formatDateValue(new Date()),
+		},
+		sender: { name: fullName, lines: senderLines },
+		date: formatLetterDate(new Date()),
+		insideAddress: buildInsideAddress(options.recipient ?? { companyName: options.companyName }),
+		paragraphs,
+		signature:
+			fullName && endsWithClosing && !bodyText.includes(fullName.toLowerCase())
+				? { name: fullName, image: options.signature?.trim() || null }
+				: null,
+	}
+}
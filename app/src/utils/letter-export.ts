@@ -0,0 +1,176 @@
+/**
+ * Markdown and standalone HTML exports, both rendered from a LetterDocument
+ */
+
+import { type LetterDocument, type LetterLine, LetterParagraphKind } from './letter-document'
+import { downloadText } from './text-download'
+
+// CommonMark hard line break: two trailing spaces
+const MARKDOWN_LINE_BREAK = '  \n'
+
+/**
+ * Escapes characters Markdown would otherwise treat as formatting
+ */
+function escapeMarkdown(text: string): string {
+	return text
+		.replace(/([\\`*_[\]<>|~])/g, '\\$1')
+		// Line starts that would become headings or lists
+		.replace(/^(\s*)([#+-])(?=\s|$)/, '$1\\$2')
+		.replace(/^(\s*\d+)([.)])(?=\s|$)/, '$1\\$2')
+}
+
+/**
+ * Quotes a front-matter value; JSON strings are valid YAML double-quoted scalars
+ */
+function yamlString(value: string): string {
+	return JSON.stringify(value)
+}
+
+function renderMarkdownLine(line: LetterLine): string {
+	return line
+		.map((segment) => {
+			const text = escapeMarkdown(segment.value)
+			// Unfilled fields stand out, as they are greyed out in the PDF
+			return segment.type === 'placeholder' ? `*${text}*` : text
+		})
+		.join('')
+}
+
+/**
+ * Renders the letter as Markdown with YAML front matter (company, position, template, date)
+ */
+export function renderMarkdown(letter: LetterDocument): string {
+	const frontMatter = [
+		'---',
+		`company: ${yamlString(letter.meta.companyName)}`,
+		`position: ${yamlString(letter.meta.position)}`,
+		`template: ${yamlString(letter.meta.template)}`,
+		`date: ${letter.meta.date}`,
+		'---',
+	].join('\n')
+
+	const blocks: string[] = []
+	const senderBlock = [
+		...(letter.sender.name ? [`**${escapeMarkdown(letter.sender.name)}**`] : []),
+		...letter.sender.lines.map(escapeMarkdown),
+	]
+	if (senderBlock.length > 0) blocks.push(senderBlock.join(MARKDOWN_LINE_BREAK))
+	blocks.push(escapeMarkdown(letter.date))
+	if (letter.insideAddress.length > 0) {
+		blocks.push(letter.insideAddress.map(escapeMarkdown).join(MARKDOWN_LINE_BREAK))
+	}
+	letter.paragraphs.forEach((paragraph) => {
+		blocks.push(paragraph.lines.map(renderMarkdownLine).join(MARKDOWN_LINE_BREAK))
+	})
+	// The signature image is left out; data URLs make the file unreadable as text
+	if (letter.signature) blocks.push(escapeMarkdown(letter.signature.name))
+
+	return `${frontMatter}\n\n${blocks.join('\n\n')}\n`
+}
+
+function escapeHtml(text: string): string {
+	return text
+		.replace(/&/g, '&amp;')
+		.replace(/</g, '&lt;')
+		.replace(/>/g, '&gt;')
+		.replace(/"/g, '&quot;')
+		.replace(/'/g, '&#39;')
+}
+
+function renderHtmlLine(line: LetterLine): string {
+	return line
+		.map((segment) => {
+			const text = escapeHtml(segment.value)
+			return segment.type === 'placeholder' ? `<span class="placeholder">${text}</span>` : text
+		})
+		.join('')
+}
+
+// Page styles matching the PDF: Times body text, Helvetica sender block, A4 margins when printed
+const HTML_STYLES = `
+	@page { size: A4; margin: 30mm 25mm 25mm; }
+	body { margin: 0; background: #f5f3ee; color: #141414; font: 11pt/1.6 'Times New Roman', Times, serif; }
+	.letter { box-sizing: border-box; max-width: 210mm; margin: 2rem auto; padding: 30mm 25mm 25mm; background: #ffffff; box-shadow: 0 2px 12px rgba(0, 0, 0, 0.08); }
+	.sender { margin: 0 0 10mm; font: 10pt/1.5 Helvetica, Arial, sans-serif; color: #464646; }
+	.sender-name { font-size: 11pt; font-weight: 700; color: #1e1e1e; }
+	.date, .recipient { color: #282828; }
+	.date { margin: 0 0 6mm; }
+	.recipient { margin: 0 0 6mm; font-style: normal; }
+	p { margin: 0 0 7mm; }
+	.closing { margin-top: 9mm; }
+	.placeholder { color: #646464; }
+	.signature { margin-top: 9mm; }
+	.signature img { display: block; max-width: 100mm; max-height: 30mm; margin-bottom: 3mm; }
+	@media print {
+		body { background: none; }
+		.letter { margin: 0; padding: 0; max-width: none; box-shadow: none; }
+	}
+`
+
+/**
+ * Renders the letter as a standalone, styled HTML document
+ */
+export function renderHtml(letter: LetterDocument): string {
+	const title = ['Cover Letter', [letter.meta.position, letter.meta.companyName].filter(Boolean).join(' at ')]
+		.filter(Boolean)
+		.join(' - ')
+
+	const body: string[] = []
+	if (letter.sender.name || letter.sender.lines.length > 0) {
+		body.push(
+			'<header class="sender">',
+			...(letter.sender.name ? [`<div class="sender-name">${escapeHtml(letter.sender.name)}</div>`] : []),
+			...letter.sender.lines.map((line) => `<div>${escapeHtml(line)}</div>`),
+			'</header>'
+		)
+	}
+	body.push(`<p class="date"><time datetime="${letter.meta.date}">${escapeHtml(letter.date)}</time></p>`)
+	if (letter.insideAddress.length > 0) {
+		body.push(`<address class="recipient">${letter.insideAddress.map(escapeHtml).join('<br>')}</address>`)
+	}
+	letter.paragraphs.forEach((paragraph) => {
+		const className = paragraph.kind === LetterParagraphKind.BODY ? '' : ` class="${paragraph.kind}"`
+		body.push(`<p${className}>${paragraph.lines.map(renderHtmlLine).join('<br>')}</p>`)
+	})
+	if (letter.signature) {
+		body.push(
+			'<div class="signature">',
+			...(letter.signature.image ? [`<img src="${escapeHtml(letter.signature.image)}" alt="Signature">`] : []),
+			`<div>${escapeHtml(letter.signature.name)}</div>`,
+			'</div>'
+		)
+	}
+
+	return [
+		'<!DOCTYPE html>',
+		'<html lang="en">',
+		'<head>',
+		'<meta charset="utf-8">',
+		'<meta name="viewport" content="width=device-width, initial-scale=1">',
+		'<meta name="generator" content="LetterCraft">',
+		`<title>${escapeHtml(title)}</title>`,
+		`<style>${HTML_STYLES}</style>`,
+		'</head>',
+		'<body>',
+		'<main class="letter">',
+		...body,
+		'</main>',
+		'</body>',
+		'</html>',
+		'',
+	].join('\n')
+}
+
+/**
+ * Downloads the letter as a Markdown file
+ */
+export function downloadMarkdown(letter: LetterDocument, filename: string = 'cover-letter.md'): void {
+	downloadText(renderMarkdown(letter), filename, 'text/markdown')
+}
+
+/**
+ * Downloads the letter as a standalone HTML file
+ */
+export function downloadHtml(letter: LetterDocument, filename: string = 'cover-letter.html'): void {
+	downloadText(renderHtml(letter), filename, 'text/html')
+}
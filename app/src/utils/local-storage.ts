@@ -1,55 +1,256 @@
 /**
- * Utility functions for localStorage operations
+ * Versioned localStorage persistence. Every key the app owns is listed in
+ * STORAGE_KEYS, reads are validated, and stored data is migrated to the
+ * current schema version before the first read.
  */
 
-const STORAGE_KEY = 'cover-letter-defaults'
+import {
+	type ApplicationRecord,
+	type Draft,
+	type SenderProfile,
+	type Template,
+	type TemplateVariable,
+} from '../types'
 
-export interface DefaultsConfig {
-	fullName: string
-	email: string
-	phone: string
-	techStack: string
+/**
+ * Every localStorage key the app owns
+ */
+export const STORAGE_KEYS = {
+	SCHEMA_VERSION: 'lettercraft_schema_version',
+	TEMPLATES: 'lettercraft_custom_templates',
+	VARIABLES: 'lettercraft_custom_variables',
+	PROFILES: 'lettercraft_profiles',
+	DRAFTS: 'lettercraft_drafts',
+	APPLICATIONS: 'lettercraft_applications',
+	CORRUPT_BACKUP: 'lettercraft_corrupt_backup', // Last unreadable value, kept for recovery
+	// Schema 0 keys, removed by the migration to schema 1
+	LEGACY_DEFAULTS: 'cover-letter-defaults',
+	LEGACY_SIGNATURE: 'lettercraft_signature',
+} as const
+
+export const CURRENT_SCHEMA_VERSION = 1
+
+/**
+ * Sender profiles and the id of the one in use
+ */
+export interface StoredProfiles {
+	profiles: SenderProfile[]
+	activeProfileId: string
+}
+
+/**
+ * Data stored under each versioned key
+ */
+export interface StorageSchema {
+	[STORAGE_KEYS.TEMPLATES]: Template[]
+	[STORAGE_KEYS.VARIABLES]: TemplateVariable[]
+	[STORAGE_KEYS.PROFILES]: StoredProfiles
+	[STORAGE_KEYS.DRAFTS]: Draft[]
+	[STORAGE_KEYS.APPLICATIONS]: ApplicationRecord[]
+}
+
+export type StorageKey = keyof StorageSchema
+
+const VALIDATORS: { [K in StorageKey]: (data: unknown) => data is StorageSchema[K] } = {
+	[STORAGE_KEYS.TEMPLATES]: (data): data is Template[] => Array.isArray(data),
+	[STORAGE_KEYS.VARIABLES]: (data): data is TemplateVariable[] => Array.isArray(data),
+	[STORAGE_KEYS.PROFILES]: (data): data is StoredProfiles => {
+		const stored = data as Partial<StoredProfiles> | null
+		return (
+			!!stored &&
+			Array.isArray(stored.profiles) &&
+			stored.profiles.length > 0 &&
+			typeof stored.activeProfileId === 'string'
+		)
+	},
+	[STORAGE_KEYS.DRAFTS]: (data): data is Draft[] => Array.isArray(data),
+	[STORAGE_KEYS.APPLICATIONS]: (data): data is ApplicationRecord[] => Array.isArray(data),
+}
+
+/**
+ * Whether data has the shape stored under a key
+ */
+export function isValidStoredValue<K extends StorageKey>(key: K, data: unknown): data is StorageSchema[K] {
+	return VALIDATORS[key](data)
+}
+
+/**
+ * Migrations keyed by the version they upgrade to
+ */
+const MIGRATIONS: Record<number, () => void> = {
+	// Schema 1: defaults and signature move into the first sender profile
+	1: () => {
+		const legacyDefaults = parseJson(localStorage.getItem(STORAGE_KEYS.LEGACY_DEFAULTS)) as
+			| { fullName?: string; email?: string; phone?: string; techStack?: string }
+			| null
+		const legacySignature = localStorage.getItem(STORAGE_KEYS.LEGACY_SIGNATURE)
+
+		if ((legacyDefaults || legacySignature) && !localStorage.getItem(STORAGE_KEYS.PROFILES)) {
+			const profiles: StoredProfiles = {
+				profiles: [
+					{
+						id: 'default',
+						name: 'Personal',
+						details: {
+							fullName: legacyDefaults?.fullName ?? '',
+							email: legacyDefaults?.email ?? '',
+							phone: legacyDefaults?.phone ?? '',
+							techStack: legacyDefaults?.techStack ?? '',
+							address: '',
+							city: '',
+							state: '',
+							zipCode: '',
+							country: '',
+							linkedIn: '',
+							portfolio: '',
+						},
+						signature: legacySignature ?? undefined,
+					},
+				],
+				activeProfileId: 'default',
+			}
+			localStorage.setItem(STORAGE_KEYS.PROFILES, JSON.stringify(profiles))
+		}
+
+		localStorage.removeItem(STORAGE_KEYS.LEGACY_DEFAULTS)
+		localStorage.removeItem(STORAGE_KEYS.LEGACY_SIGNATURE)
+	},
+}
+
+function parseJson(value: string | null): unknown {
+	if (value === null) return null
+	try {
+		return JSON.parse(value)
+	} catch {
+		return null
+	}
+}
+
+let migrated = false
+
+/**
+ * Upgrades stored data to the current schema version. Runs once per session.
+ */
+export function migrateStorage(): void {
+	if (migrated) return
+	migrated = true
+
+	try {
+		const stored = Number(localStorage.getItem(STORAGE_KEYS.SCHEMA_VERSION) ?? 0)
+		let version = Number.isInteger(stored) && stored >= 0 ? stored : 0
+
+		while (version < CURRENT_SCHEMA_VERSION) {
+			version += 1
+			MIGRATIONS[version]?.()
+			localStorage.setItem(STORAGE_KEYS.SCHEMA_VERSION, String(version))
+		}
+	} catch (err) {
+		console.error('Failed to migrate localStorage:', err)
+	}
+}
+
+/**
+ * Moves an unreadable value aside so the app can start with defaults
+ */
+function recoverCorruptValue(key: StorageKey, raw: string): void {
+	console.error(`Stored data under "${key}" is corrupt and was reset. A backup was kept.`)
+	try {
+		localStorage.setItem(
+			STORAGE_KEYS.CORRUPT_BACKUP,
+			JSON.stringify({ key, value: raw, recoveredAt: new Date().toISOString() })
+		)
+		localStorage.removeItem(key)
+	} catch (err) {
+		console.error('Failed to back up corrupt data:', err)
+	}
 }
 
 /**
- * Load defaults from localStorage
+ * Reads and validates a stored value. Returns null when missing or corrupt.
  */
-export function loadDefaults(): DefaultsConfig {
+export function readStorage<K extends StorageKey>(key: K): StorageSchema[K] | null {
+	migrateStorage()
 	try {
-		const stored = localStorage.getItem(STORAGE_KEY)
-		if (stored) {
-			return JSON.parse(stored)
+		const raw = localStorage.getItem(key)
+		if (raw === null) return null
+
+		const data = parseJson(raw)
+		if (VALIDATORS[key](data)) {
+			return data
 		}
+		recoverCorruptValue(key, raw)
 	} catch (err) {
-		console.error('Failed to load defaults from localStorage:', err)
+		console.error(`Failed to read "${key}" from localStorage:`, err)
 	}
-	
-	return {
-		fullName: '',
-		email: '',
-		phone: '',
-		techStack: '',
+
+	return null
+}
+
+/**
+ * Writes a value under one of the app's keys
+ */
+export function writeStorage<K extends StorageKey>(key: K, data: StorageSchema[K]): void {
+	try {
+		localStorage.setItem(key, JSON.stringify(data))
+		localStorage.setItem(STORAGE_KEYS.SCHEMA_VERSION, String(CURRENT_SCHEMA_VERSION))
+	} catch (err) {
+		console.error(`Failed to write "${key}" to localStorage:`, err)
 	}
 }
 
 /**
- * Save defaults to localStorage
+ * Removes one of the app's keys
  */
-export function saveDefaults(defaults: DefaultsConfig): void {
+export function removeStorage(key: StorageKey): void {
 	try {
-		localStorage.setItem(STORAGE_KEY, JSON.stringify(defaults))
+		localStorage.removeItem(key)
 	} catch (err) {
-		console.error('Failed to save defaults to localStorage:', err)
+		console.error(`Failed to remove "${key}" from localStorage:`, err)
 	}
 }
 
 /**
- * Clear defaults from localStorage
+ * Removes every key the app owns
  */
-export function clearDefaults(): void {
+export function clearStorage(): void {
 	try {
-		localStorage.removeItem(STORAGE_KEY)
+		Object.values(STORAGE_KEYS).forEach((key) => localStorage.removeItem(key))
 	} catch (err) {
-		console.error('Failed to clear defaults from localStorage:', err)
+		console.error('Failed to clear localStorage:', err)
 	}
 }
+
+/**
+ * Load user-created and edited templates from localStorage
+ */
+export function loadCustomTemplates(): Template[] {
+	return readStorage(STORAGE_KEYS.TEMPLATES) ?? []
+}
+
+/**
+ * Load user-created and edited variables from localStorage
+ */
+export function loadCustomVariables(): TemplateVariable[] {
+	return readStorage(STORAGE_KEYS.VARIABLES) ?? []
+}
+
+/**
+ * Load sender profiles from localStorage. Returns null when none were saved yet.
+ */
+export function loadProfiles(): StoredProfiles | null {
+	return readStorage(STORAGE_KEYS.PROFILES)
+}
+
+/**
+ * Load autosaved drafts from localStorage
+ */
+export function loadDrafts(): Draft[] {
+	return readStorage(STORAGE_KEYS.DRAFTS) ?? []
+}
+
+/**
+ * Load tracked applications from localStorage
+ */
+export function loadApplications(): ApplicationRecord[] {
+	return readStorage(STORAGE_KEYS.APPLICATIONS) ?? []
+}
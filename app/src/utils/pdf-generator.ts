@@ -1,12 +1,264 @@
 import jsPDF from 'jspdf'
+import { type LetterDocument, type LetterLine, LetterParagraphKind } from './letter-document'
+import { type QrCode } from './qr-code'
+import { type RecipientDetails, buildInsideAddress } from './recipient'
 
-interface PDFOptions {
+// Side length of the header QR code in mm; small enough to sit beside the sender block
+const HEADER_QR_SIZE = 24
+
+export interface PDFOptions {
 	fullName?: string
 	email?: string
 	phone?: string
+	address?: string
+	city?: string
+	state?: string
+	zipCode?: string
+	country?: string
+	linkedIn?: string
+	portfolio?: string
 	companyName?: string
 	position?: string
+	recipient?: RecipientDetails
 	signature?: string | null
+	qrCode?: QrCode // Drawn in the top-right of the header, e.g. a contact card
+}
+
+/**
+ * Draws a QR code as filled rectangles, so it stays sharp at any zoom.
+ * Returns the y position below the code.
+ */
+function drawQrCode(doc: jsPDF, qr: QrCode, x: number, y: number, size: number): number {
+	const moduleSize = size / qr.size
+
+	doc.setFillColor(0, 0, 0)
+	qr.modules.forEach((row, rowIndex) => {
+		// One rectangle per horizontal run of dark modules keeps the file small
+		let runStart = -1
+		row.forEach((dark, column) => {
+			if (dark && runStart < 0) runStart = column
+			if (runStart >= 0 && (!dark || column === row.length - 1)) {
+				const runEnd = dark ? column + 1 : column
+				doc.rect(x + runStart * moduleSize, y + rowIndex * moduleSize, (runEnd - runStart) * moduleSize, moduleSize, 'F')
+				runStart = -1
+			}
+		})
+	})
+	doc.setFillColor(255, 255, 255)
+
+	return y + size
+}
+
+/**
+ * Draws the e-signature image scaled to fit, and returns its height
+ */
+function drawSignatureImage(doc: jsPDF, signatureData: string, x: number, y: number): number {
+	try {
+		// Load image to get actual dimensions for autofit
+		const img = new Image()
+		img.src = signatureData
+		
+		// Max dimensions for signature in PDF
+		const maxWidth = 100 // mm (about 4 inches - wide enough for signatures)
+		const maxHeight = 30 // mm (about 1.2 inches - reasonable height)
+		
+		// If image is already loaded, calculate and add immediately
+		if (img.complete && img.naturalWidth > 0 && img.naturalHeight > 0) {
+			const aspectRatio = img.naturalHeight / img.naturalWidth
+			let signatureWidth = maxWidth
+			let signatureHeight = signatureWidth * aspectRatio
+			
+			// If height exceeds max, scale down
+			if (signatureHeight > maxHeight) {
+				signatureHeight = maxHeight
+				signatureWidth = signatureHeight / aspectRatio
+			}
+			
+			// Ensure minimum readable size
+			if (signatureWidth < 50) {
+				signatureWidth = 50
+				signatureHeight = signatureWidth * aspectRatio
+			}
+			
+			doc.addImage(
+				signatureData,
+				'PNG',
+				x,
+				y,
+				signatureWidth,
+				signatureHeight
+			)
+			return signatureHeight
+		} else {
+			// Wait for image to load, then calculate dimensions
+			img.onload = () => {
+				const aspectRatio = img.naturalHeight / img.naturalWidth
+				let finalWidth = maxWidth
+				let finalHeight = finalWidth * aspectRatio
+				
+				if (finalHeight > maxHeight) {
+					finalHeight = maxHeight
+					finalWidth = finalHeight / aspectRatio
+				}
+				
+				if (finalWidth < 50) {
+					finalWidth = 50
+					finalHeight = finalWidth * aspectRatio
+				}
+				
+				doc.addImage(
+					signatureData,
+					'PNG',
+					x,
+					y,
+					finalWidth,
+					finalHeight
+				)
+			}
+			
+			// Use estimated dimensions (fallback if onload doesn't fire in time)
+			// Estimate based on signature pad dimensions (200px height, ~4:1 aspect ratio)
+			const estimatedAspectRatio = 200 / 800 // height/width estimate
+			let estimatedWidth = maxWidth
+			let estimatedHeight = estimatedWidth * estimatedAspectRatio
+			
+			if (estimatedHeight > maxHeight) {
+				estimatedHeight = maxHeight
+				estimatedWidth = estimatedHeight / estimatedAspectRatio
+			}
+			
+			doc.addImage(
+				signatureData,
+				'PNG',
+				x,
+				y,
+				estimatedWidth,
+				estimatedHeight
+			)
+			return estimatedHeight
+		}
+	} catch (error) {
+		console.error('Error adding signature to PDF:', error)
+		// Fallback: use fixed dimensions
+		doc.addImage(
+			signatureData,
+			'PNG',
+			x,
+			y,
+			80,
+			20
+		)
+		return 20
+	}
+}
+
+/**
+ * Sender block lines below the name, in business-letter order:
+ * street, "City, State ZIP", country, phone, email, then links
+ */
+export function getSenderLines(options: PDFOptions): string[] {
+	const stateZip = [options.state, options.zipCode].filter((part) => part?.trim()).join(' ')
+	const cityLine = [options.city, stateZip].filter((part) => part?.trim()).join(', ')
+	return [
+		options.address,
+		cityLine,
+		options.country,
+		options.phone,
+		options.email,
+		options.linkedIn,
+		options.portfolio,
+	]
+		.map((line) => line?.trim() ?? '')
+		.filter(Boolean)
+}
+
+/**
+ * Whether a line at the end of the letter repeats an address or link from the header
+ */
+function repeatsSenderAddress(line: string, options: PDFOptions): boolean {
+	const lineLower = line.toLowerCase()
+	return [options.address, options.linkedIn, options.portfolio]
+		.map((value) => value?.trim().toLowerCase() ?? '')
+		.some((value) => value && lineLower.includes(value))
+}
+
+/**
+ * Whether a line at the end of the letter repeats the sender's name, email, phone, address or links
+ */
+export function repeatsSenderContact(line: string, options: PDFOptions): boolean {
+	const lineLower = line.toLowerCase()
+	
+	// Check against each contact field
+	if (options.fullName) {
+		const nameLower = options.fullName.toLowerCase()
+		if (lineLower === nameLower || lineLower.includes(nameLower)) {
+			return true
+		}
+	}
+	
+	if (options.email) {
+		const emailLower = options.email.toLowerCase()
+		if (lineLower === emailLower || lineLower.includes(emailLower)) {
+			return true
+		}
+	}
+	
+	if (options.phone) {
+		const phoneLower = options.phone.toLowerCase().replace(/\s+/g, '')
+		const linePhone = lineLower.replace(/\s+/g, '')
+		if (linePhone === phoneLower || linePhone.includes(phoneLower) || phoneLower.includes(linePhone)) {
+			return true
+		}
+	}
+	
+	return repeatsSenderAddress(line, options)
+}
+
+/**
+ * Removes contact lines after the closing that repeat the sender block in the header
+ */
+export function removeRepeatedContactLines(content: string, options: PDFOptions): string {
+	const senderLines = getSenderLines(options)
+	let cleanedContent = content
+	
+	// Remove contact info from the end of content if it matches header info
+	if (options.fullName || senderLines.length > 0) {
+		const lines = cleanedContent.split('\n')
+		
+		// Find the closing line (Sincerely, Best regards, etc.)
+		let closingIndex = -1
+		for (let i = 0; i < lines.length; i++) {
+			const trimmed = lines[i].trim()
+			const closingPatterns = /^(Sincerely|Best regards|Regards|Yours sincerely|Yours truly|Respectfully),?$/i
+			if (closingPatterns.test(trimmed)) {
+				closingIndex = i
+				break
+			}
+		}
+		
+		// Remove contact info lines after closing
+		if (closingIndex >= 0) {
+			const beforeClosing = lines.slice(0, closingIndex + 1)
+			const afterClosing = lines.slice(closingIndex + 1)
+			
+			// Filter out lines that match contact info (exact or contains)
+			const filteredAfterClosing = afterClosing.filter(line => {
+				const trimmed = line.trim()
+				return trimmed && !repeatsSenderContact(trimmed, options)
+			})
+			
+			cleanedContent = [...beforeClosing, ...filteredAfterClosing].join('\n')
+		}
+	}
+	
+	return cleanedContent
+}
+
+/**
+ * Letter date, e.g. "March 5, 2025"
+ */
+export function formatLetterDate(date: Date): string {
+	return date.toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' })
 }
 
 /**
@@ -36,8 +288,14 @@ export function generatePDF(
 	
 	let y = topMargin
 	
+	// QR code (top right), aligned with the top of the sender name
+	const qrBottom = options.qrCode
+		? drawQrCode(doc, options.qrCode, pageWidth - rightMargin - HEADER_QR_SIZE, topMargin - 4, HEADER_QR_SIZE)
+		: 0
+	
 	// Sender information (top left) - Standard business letter format with improved styling
-	if (options.fullName || options.email || options.phone) {
+	const senderLines = getSenderLines(options)
+	if (options.fullName || senderLines.length > 0) {
 		doc.setFontSize(headerFontSize)
 		doc.setFont('helvetica', 'bold')
 		doc.setTextColor(30, 30, 30) // Darker, more professional color
@@ -51,15 +309,10 @@ export function generatePDF(
 		doc.setTextColor(70, 70, 70) // Slightly lighter but still professional
 		doc.setFontSize(10) // Slightly smaller for contact info
 		
-		if (options.email) {
-			doc.text(options.email, leftMargin, y)
-			y += lineHeight - 0.5
-		}
-		
-		if (options.phone) {
-			doc.text(options.phone, leftMargin, y)
+		senderLines.forEach((line) => {
+			doc.text(line, leftMargin, y)
 			y += lineHeight - 0.5
-		}
+		})
 		
 		// Reset text color and font size
 		doc.setTextColor(0, 0, 0)
@@ -67,13 +320,13 @@ export function generatePDF(
 		y += paragraphSpacing + 3
 	}
 	
+	// Keep the date clear of a QR code taller than the sender block
+	if (qrBottom > 0) {
+		y = Math.max(y, qrBottom + paragraphSpacing + 3)
+	}
+	
 	// Date (below sender info, left-aligned for block style)
-	const today = new Date()
-	const dateStr = today.toLocaleDateString('en-US', { 
-		year: 'numeric', 
-		month: 'long', 
-		day: 'numeric' 
-	})
+	const dateStr = formatLetterDate(new Date())
 	
 	doc.setFont('times', 'normal') // Use Times for body text (more professional)
 	doc.setFontSize(bodyFontSize)
@@ -81,102 +334,24 @@ export function generatePDF(
 	doc.text(dateStr, leftMargin, y)
 	y += paragraphSpacing + 5
 	
-	// Recipient information (below date, standard format)
-	// Note: We show company name only, salutation will be in content
-	if (options.companyName) {
+	// Inside address (below date, standard format)
+	// The salutation is part of the content, built from the same recipient details
+	const insideAddress = buildInsideAddress(options.recipient ?? { companyName: options.companyName })
+	if (insideAddress.length > 0) {
 		doc.setFont('times', 'normal')
 		doc.setFontSize(bodyFontSize)
 		doc.setTextColor(40, 40, 40)
-		doc.text(options.companyName, leftMargin, y)
-		y += paragraphSpacing + 5
+		insideAddress.forEach((line) => {
+			doc.text(line, leftMargin, y)
+			y += lineHeight
+		})
+		y += paragraphSpacing - 1
 	} else {
 		y += paragraphSpacing
 	}
 	
 	// Clean content: remove duplicate contact information that's already in header
-	let cleanedContent = content
-	
-	// Ensure proper salutation format (standard uses colon, not comma)
-	// Don't remove salutation - it's required in standard format
-	// But ensure it's properly formatted
-	const lines = cleanedContent.split('\n')
-	if (lines.length > 0) {
-		const firstLine = lines[0].trim()
-		const salutationPatterns = [
-			/^Dear\s+(Hiring\s+Manager|Sir|Madam|Mr\.|Mrs\.|Ms\.|Dr\.)[,\s]*$/i,
-			/^Dear\s+Hiring\s+Manager[,]?$/i,
-			/^Hi\s+there[,]?$/i,
-		]
-		
-		// If salutation exists but doesn't end with colon, fix it
-		if (salutationPatterns.some(pattern => pattern.test(firstLine))) {
-			if (!firstLine.endsWith(':')) {
-				// Replace comma with colon for standard format
-				lines[0] = firstLine.replace(/[,]?\s*$/, ':')
-				cleanedContent = lines.join('\n')
-			}
-		} else if (options.companyName) {
-			// If no salutation but we have recipient info, add standard salutation
-			cleanedContent = 'Dear Hiring Manager:\n\n' + cleanedContent
-		}
-	}
-	
-	// Remove contact info from the end of content if it matches header info
-	if (options.fullName || options.email || options.phone) {
-		const lines = cleanedContent.split('\n')
-		
-		// Find the closing line (Sincerely, Best regards, etc.)
-		let closingIndex = -1
-		for (let i = 0; i < lines.length; i++) {
-			const trimmed = lines[i].trim()
-			const closingPatterns = /^(Sincerely|Best regards|Regards|Yours sincerely|Yours truly|Respectfully),?$/i
-			if (closingPatterns.test(trimmed)) {
-				closingIndex = i
-				break
-			}
-		}
-		
-		// Remove contact info lines after closing
-		if (closingIndex >= 0) {
-			const beforeClosing = lines.slice(0, closingIndex + 1)
-			const afterClosing = lines.slice(closingIndex + 1)
-			
-			// Filter out lines that match contact info (exact or contains)
-			const filteredAfterClosing = afterClosing.filter(line => {
-				const trimmed = line.trim()
-				if (!trimmed) return false
-				
-				const trimmedLower = trimmed.toLowerCase()
-				
-				// Check against each contact field
-				if (options.fullName) {
-					const nameLower = options.fullName.toLowerCase()
-					if (trimmedLower === nameLower || trimmedLower.includes(nameLower)) {
-						return false
-					}
-				}
-				
-				if (options.email) {
-					const emailLower = options.email.toLowerCase()
-					if (trimmedLower === emailLower || trimmedLower.includes(emailLower)) {
-						return false
-					}
-				}
-				
-				if (options.phone) {
-					const phoneLower = options.phone.toLowerCase().replace(/\s+/g, '')
-					const trimmedPhone = trimmedLower.replace(/\s+/g, '')
-					if (trimmedPhone === phoneLower || trimmedPhone.includes(phoneLower) || phoneLower.includes(trimmedPhone)) {
-						return false
-					}
-				}
-				
-				return true
-			})
-			
-			cleanedContent = [...beforeClosing, ...filteredAfterClosing].join('\n')
-		}
-	}
+	const cleanedContent = removeRepeatedContactLines(content, options)
 	
 	// Process content with proper paragraph formatting using Times font
 	doc.setFontSize(bodyFontSize)
@@ -282,104 +457,7 @@ export function generatePDF(
 		
 		// Add e-signature image if available
 		if (options.signature && typeof options.signature === 'string' && options.signature.trim()) {
-			const signatureData = options.signature // Capture for TypeScript
-			try {
-				// Load image to get actual dimensions for autofit
-				const img = new Image()
-				img.src = signatureData
-				
-				// Max dimensions for signature in PDF
-				const maxWidth = 100 // mm (about 4 inches - wide enough for signatures)
-				const maxHeight = 30 // mm (about 1.2 inches - reasonable height)
-				
-				// If image is already loaded, calculate and add immediately
-				if (img.complete && img.naturalWidth > 0 && img.naturalHeight > 0) {
-					const aspectRatio = img.naturalHeight / img.naturalWidth
-					let signatureWidth = maxWidth
-					let signatureHeight = signatureWidth * aspectRatio
-					
-					// If height exceeds max, scale down
-					if (signatureHeight > maxHeight) {
-						signatureHeight = maxHeight
-						signatureWidth = signatureHeight / aspectRatio
-					}
-					
-					// Ensure minimum readable size
-					if (signatureWidth < 50) {
-						signatureWidth = 50
-						signatureHeight = signatureWidth * aspectRatio
-					}
-					
-					doc.addImage(
-						signatureData,
-						'PNG',
-						leftMargin,
-						y,
-						signatureWidth,
-						signatureHeight
-					)
-					y += signatureHeight + lineHeight * 1.5
-				} else {
-					// Wait for image to load, then calculate dimensions
-					img.onload = () => {
-						const aspectRatio = img.naturalHeight / img.naturalWidth
-						let finalWidth = maxWidth
-						let finalHeight = finalWidth * aspectRatio
-						
-						if (finalHeight > maxHeight) {
-							finalHeight = maxHeight
-							finalWidth = finalHeight / aspectRatio
-						}
-						
-						if (finalWidth < 50) {
-							finalWidth = 50
-							finalHeight = finalWidth * aspectRatio
-						}
-						
-						doc.addImage(
-							signatureData,
-							'PNG',
-							leftMargin,
-							y,
-							finalWidth,
-							finalHeight
-						)
-					}
-					
-					// Use estimated dimensions (fallback if onload doesn't fire in time)
-					// Estimate based on signature pad dimensions (200px height, ~4:1 aspect ratio)
-					const estimatedAspectRatio = 200 / 800 // height/width estimate
-					let estimatedWidth = maxWidth
-					let estimatedHeight = estimatedWidth * estimatedAspectRatio
-					
-					if (estimatedHeight > maxHeight) {
-						estimatedHeight = maxHeight
-						estimatedWidth = estimatedHeight / estimatedAspectRatio
-					}
-					
-					doc.addImage(
-						signatureData,
-						'PNG',
-						leftMargin,
-						y,
-						estimatedWidth,
-						estimatedHeight
-					)
-					y += estimatedHeight + lineHeight * 1.5
-				}
-			} catch (error) {
-				console.error('Error adding signature to PDF:', error)
-				// Fallback: use fixed dimensions
-				doc.addImage(
-					signatureData,
-					'PNG',
-					leftMargin,
-					y,
-					80,
-					20
-				)
-				y += 20 + lineHeight * 1.5
-			}
+			y += drawSignatureImage(doc, options.signature, leftMargin, y) + lineHeight * 1.5
 		} else {
 			// No signature, add space for handwritten signature
 			y += lineHeight * 2
@@ -398,13 +476,9 @@ export function generatePDF(
 }
 
 /**
- * Generates a PDF with markdown-formatted content
+ * Generates a Markdown-styled PDF (monospace body, bold salutation and closing) from the letter document
  */
-export function generateMarkdownPDF(
-	content: string,
-	filename: string = 'cover-letter.md.pdf',
-	options: PDFOptions = {}
-): void {
+export function generateMarkdownPDF(letter: LetterDocument, filename: string = 'cover-letter.md.pdf'): void {
 	const doc = new jsPDF()
 	const pageWidth = doc.internal.pageSize.getWidth()
 	const pageHeight = doc.internal.pageSize.getHeight()
@@ -425,13 +499,14 @@ export function generateMarkdownPDF(
 	let y = topMargin
 	
 	// Sender information (top left)
-	if (options.fullName || options.email || options.phone) {
+	if (letter.sender.name || letter.sender.lines.length > 0) {
 		doc.setFontSize(headerFontSize)
 		doc.setFont('helvetica', 'bold')
 		doc.setTextColor(30, 30, 30)
 		
-		if (options.fullName) {
-			doc.text(`**${options.fullName}**`, leftMargin, y)
+		// The name is set in bold, not wrapped in Markdown markers
+		if (letter.sender.name) {
+			doc.text(letter.sender.name, leftMargin, y)
 			y += lineHeight + 1.5
 		}
 		
@@ -439,200 +514,97 @@ export function generateMarkdownPDF(
 		doc.setTextColor(70, 70, 70)
 		doc.setFontSize(9)
 		
-		if (options.email) {
-			doc.text(options.email, leftMargin, y)
+		letter.sender.lines.forEach((line) => {
+			doc.text(line, leftMargin, y)
 			y += lineHeight - 0.5
-		}
-		
-		if (options.phone) {
-			doc.text(options.phone, leftMargin, y)
-			y += lineHeight - 0.5
-		}
+		})
 		
 		doc.setTextColor(0, 0, 0)
-		doc.setFontSize(bodyFontSize)
 		y += paragraphSpacing + 3
 	}
 	
 	// Date
-	const today = new Date()
-	const dateStr = today.toLocaleDateString('en-US', { 
-		year: 'numeric', 
-		month: 'long', 
-		day: 'numeric' 
-	})
-	
 	doc.setFont('courier', 'normal') // Monospace for markdown feel
 	doc.setFontSize(bodyFontSize)
 	doc.setTextColor(40, 40, 40)
-	doc.text(dateStr, leftMargin, y)
+	doc.text(letter.date, leftMargin, y)
 	y += paragraphSpacing + 5
 	
-	// Recipient information
-	if (options.companyName) {
-		doc.setFont('courier', 'normal')
-		doc.setFontSize(bodyFontSize)
-		doc.setTextColor(40, 40, 40)
-		doc.text(options.companyName, leftMargin, y)
-		y += paragraphSpacing + 5
+	// Inside address
+	if (letter.insideAddress.length > 0) {
+		letter.insideAddress.forEach((line) => {
+			doc.text(line, leftMargin, y)
+			y += lineHeight
+		})
+		y += paragraphSpacing - 1
 	}
 	
-	// Clean content similar to regular PDF
-	let cleanedContent = content
-	const lines = cleanedContent.split('\n')
-	if (lines.length > 0) {
-		const firstLine = lines[0].trim()
-		const salutationPatterns = [
-			/^Dear\s+(Hiring\s+Manager|Sir|Madam|Mr\.|Mrs\.|Ms\.|Dr\.)[,\s]*$/i,
-			/^Dear\s+Hiring\s+Manager[,]?$/i,
-			/^Hi\s+there[,]?$/i,
-		]
+	// Draws one line of the letter, wrapped, greying out the wrapped lines that hold unfilled fields
+	const drawLine = (line: LetterLine, bold: boolean) => {
+		const text = line.map((segment) => segment.value).join('')
+		const placeholders: Array<[number, number]> = []
+		let offset = 0
+		line.forEach((segment) => {
+			if (segment.type === 'placeholder') placeholders.push([offset, offset + segment.value.length])
+			offset += segment.value.length
+		})
 		
-		if (salutationPatterns.some(pattern => pattern.test(firstLine))) {
-			if (!firstLine.endsWith(':')) {
-				lines[0] = firstLine.replace(/[,]?\s*$/, ':')
-				cleanedContent = lines.join('\n')
+		doc.setFont('courier', bold ? 'bold' : 'normal')
+		const wrappedLines: string[] = doc.splitTextToSize(text, maxWidth)
+		let cursor = 0
+		wrappedLines.forEach((wrappedLine) => {
+			if (y + lineHeight > pageHeight - bottomMargin) {
+				doc.addPage()
+				y = topMargin
 			}
-		} else if (options.companyName) {
-			cleanedContent = 'Dear Hiring Manager:\n\n' + cleanedContent
-		}
-	}
-	
-	// Remove contact info from end if it matches header
-	if (options.fullName || options.email || options.phone) {
-		const contentLines = cleanedContent.split('\n')
-		let closingIndex = -1
-		for (let i = 0; i < contentLines.length; i++) {
-			const trimmed = contentLines[i].trim()
-			const closingPatterns = /^(Sincerely|Best regards|Regards|Yours sincerely|Yours truly|Respectfully),?$/i
-			if (closingPatterns.test(trimmed)) {
-				closingIndex = i
-				break
-			}
-		}
-		
-		if (closingIndex >= 0) {
-			const beforeClosing = contentLines.slice(0, closingIndex + 1)
-			const afterClosing = contentLines.slice(closingIndex + 1)
 			
-			const filteredAfterClosing = afterClosing.filter(line => {
-				const trimmed = line.trim()
-				if (!trimmed) return false
-				
-				const trimmedLower = trimmed.toLowerCase()
-				
-				if (options.fullName) {
-					const nameLower = options.fullName.toLowerCase()
-					if (trimmedLower === nameLower || trimmedLower.includes(nameLower)) {
-						return false
-					}
-				}
-				
-				if (options.email) {
-					const emailLower = options.email.toLowerCase()
-					if (trimmedLower === emailLower || trimmedLower.includes(emailLower)) {
-						return false
-					}
-				}
-				
-				if (options.phone) {
-					const phoneLower = options.phone.toLowerCase().replace(/\s+/g, '')
-					const trimmedPhone = trimmedLower.replace(/\s+/g, '')
-					if (trimmedPhone === phoneLower || trimmedPhone.includes(phoneLower) || phoneLower.includes(trimmedPhone)) {
-						return false
-					}
-				}
-				
-				return true
-			})
+			const start = text.indexOf(wrappedLine, cursor)
+			const end = start < 0 ? cursor : start + wrappedLine.length
+			cursor = end
+			const hasPlaceholder = start >= 0 && placeholders.some(([from, to]) => from < end && to > start)
 			
-			cleanedContent = [...beforeClosing, ...filteredAfterClosing].join('\n')
-		}
+			if (hasPlaceholder) {
+				doc.setFont('courier', 'normal')
+				doc.setTextColor(100, 100, 100)
+			} else if (bold) {
+				doc.setFont('courier', 'bold')
+				doc.setTextColor(30, 30, 30)
+			} else {
+				doc.setFont('courier', 'normal')
+				doc.setTextColor(20, 20, 20)
+			}
+			
+			doc.text(wrappedLine, leftMargin, y)
+			y += lineHeight
+		})
 	}
 	
-	// Process content with markdown-style formatting
-	doc.setFontSize(bodyFontSize)
-	doc.setFont('courier', 'normal')
-	doc.setTextColor(20, 20, 20)
-	
-	// Split content into paragraphs
-	const paragraphs = cleanedContent.split(/\n\s*\n/).filter(p => p.trim())
-	
-	paragraphs.forEach((paragraph, paraIndex) => {
-		const lines = paragraph.split('\n').map(l => l.trim()).filter(l => l)
+	letter.paragraphs.forEach((paragraph, paraIndex) => {
+		if (paragraph.kind === LetterParagraphKind.SALUTATION && paraIndex === 0) {
+			y += paragraphSpacing * 0.5
+		}
 		
-		lines.forEach((line) => {
-			const salutationPatterns = /^Dear\s+(.+?)[:,]?$/i
-			const isSalutation = salutationPatterns.test(line)
-			const closingPatterns = /^(Sincerely|Best regards|Regards|Yours sincerely|Yours truly|Respectfully),?$/i
-			const isClosing = closingPatterns.test(line)
-			
-			if (isSalutation) {
-				if (paraIndex === 0) {
-					y += paragraphSpacing * 0.5
-				}
-			}
-			
+		paragraph.lines.forEach((line, lineIndex) => {
+			// Only the closing phrase itself is styled; a name below it is not
+			const isClosing = paragraph.kind === LetterParagraphKind.CLOSING && lineIndex === 0
 			if (isClosing) {
 				y += paragraphSpacing + 2
 			}
 			
-			// Wrap text
-			const wrappedLines = doc.splitTextToSize(line, maxWidth)
-			
-			wrappedLines.forEach((wrappedLine: string, lineIndex: number) => {
-				if (y + lineHeight > pageHeight - bottomMargin) {
-					doc.addPage()
-					y = topMargin
-					doc.setFont('courier', 'normal')
-					doc.setFontSize(bodyFontSize)
-					doc.setTextColor(20, 20, 20)
-				}
-				
-				// Style salutations and closings
-				if (isSalutation && lineIndex === 0) {
-					doc.setFont('courier', 'bold')
-					doc.setTextColor(30, 30, 30)
-				} else if (isClosing) {
-					doc.setFont('courier', 'bold')
-					doc.setTextColor(30, 30, 30)
-				} else {
-					doc.setFont('courier', 'normal')
-					doc.setTextColor(20, 20, 20)
-				}
-				
-				// Check for placeholders
-				const hasPlaceholder = /\[.*?\]/.test(wrappedLine)
-				if (hasPlaceholder) {
-					doc.setFont('courier', 'normal')
-					doc.setTextColor(100, 100, 100)
-				}
-				
-				doc.text(wrappedLine, leftMargin, y)
-				y += lineHeight
-			})
+			drawLine(line, isClosing || paragraph.kind === LetterParagraphKind.SALUTATION)
 			
 			if (isClosing) {
 				y += lineHeight * 2.5
 			}
 		})
 		
-		if (paraIndex < paragraphs.length - 1) {
+		if (paraIndex < letter.paragraphs.length - 1) {
 			y += paragraphSpacing + 1
 		}
 	})
 	
-	// Add signature block
-	const cleanedContentLower = cleanedContent.toLowerCase()
-	const nameLower = options.fullName?.toLowerCase() || ''
-	const hasNameInContent = nameLower && cleanedContentLower.includes(nameLower)
-	
-	const lastLines = cleanedContent.split('\n').filter(l => l.trim())
-	const lastLine = lastLines[lastLines.length - 1]?.trim() || ''
-	const closingPatterns = /^(Sincerely|Best regards|Regards|Yours sincerely|Yours truly|Respectfully),?$/i
-	const hasClosing = closingPatterns.test(lastLine)
-	
-	if (options.fullName && hasClosing && !hasNameInContent && y < pageHeight - bottomMargin - lineHeight * 3) {
+	// Signature block: e-signature image, then typed name
+	if (letter.signature) {
 		if (y + lineHeight * 5 > pageHeight - bottomMargin) {
 			doc.addPage()
 			y = topMargin
@@ -640,96 +612,8 @@ export function generateMarkdownPDF(
 			y += lineHeight * 1.5
 		}
 		
-		if (options.signature && typeof options.signature === 'string' && options.signature.trim()) {
-			const signatureData = options.signature
-			try {
-				const img = new Image()
-				img.src = signatureData
-				
-				const maxWidth = 100
-				const maxHeight = 30
-				
-				if (img.complete && img.naturalWidth > 0 && img.naturalHeight > 0) {
-					const aspectRatio = img.naturalHeight / img.naturalWidth
-					let signatureWidth = maxWidth
-					let signatureHeight = signatureWidth * aspectRatio
-					
-					if (signatureHeight > maxHeight) {
-						signatureHeight = maxHeight
-						signatureWidth = signatureHeight / aspectRatio
-					}
-					
-					if (signatureWidth < 50) {
-						signatureWidth = 50
-						signatureHeight = signatureWidth * aspectRatio
-					}
-					
-					doc.addImage(
-						signatureData,
-						'PNG',
-						leftMargin,
-						y,
-						signatureWidth,
-						signatureHeight
-					)
-					y += signatureHeight + lineHeight * 1.5
-				} else {
-					img.onload = () => {
-						const aspectRatio = img.naturalHeight / img.naturalWidth
-						let finalWidth = maxWidth
-						let finalHeight = finalWidth * aspectRatio
-						
-						if (finalHeight > maxHeight) {
-							finalHeight = maxHeight
-							finalWidth = finalHeight / aspectRatio
-						}
-						
-						if (finalWidth < 50) {
-							finalWidth = 50
-							finalHeight = finalWidth * aspectRatio
-						}
-						
-						doc.addImage(
-							signatureData,
-							'PNG',
-							leftMargin,
-							y,
-							finalWidth,
-							finalHeight
-						)
-					}
-					
-					const estimatedAspectRatio = 200 / 800
-					let estimatedWidth = maxWidth
-					let estimatedHeight = estimatedWidth * estimatedAspectRatio
-					
-					if (estimatedHeight > maxHeight) {
-						estimatedHeight = maxHeight
-						estimatedWidth = estimatedHeight / estimatedAspectRatio
-					}
-					
-					doc.addImage(
-						signatureData,
-						'PNG',
-						leftMargin,
-						y,
-						estimatedWidth,
-						estimatedHeight
-					)
-					y += estimatedHeight + lineHeight * 1.5
-				}
-			} catch (error) {
-				console.error('Error adding signature to PDF:', error)
-				doc.addImage(
-					signatureData,
-					'PNG',
-					leftMargin,
-					y,
-					80,
-					20
-				)
-				y += 20 + lineHeight * 1.5
-			}
+		if (letter.signature.image) {
+			y += drawSignatureImage(doc, letter.signature.image, leftMargin, y) + lineHeight * 1.5
 		} else {
 			y += lineHeight * 2
 		}
@@ -737,9 +621,7 @@ export function generateMarkdownPDF(
 		doc.setFont('courier', 'normal')
 		doc.setFontSize(bodyFontSize)
 		doc.setTextColor(30, 30, 30)
-		if (options.fullName && typeof options.fullName === 'string') {
-			doc.text(options.fullName, leftMargin, y)
-		}
+		doc.text(letter.signature.name, leftMargin, y)
 	}
 	
 	doc.save(filename)
@@ -0,0 +1,515 @@
+/**
+ * QR code encoder (ISO/IEC 18004) that runs offline. Text is encoded as UTF-8
+ * in byte mode, in the smallest version (1-40) that fits, with the mask that
+ * scores the lowest penalty.
+ */
+
+/**
+ * Error correction level; higher levels survive more damage but hold less data
+ */
+export const QrErrorCorrection = {
+	LOW: 'L', // ~7% recoverable
+	MEDIUM: 'M', // ~15%
+	QUARTILE: 'Q', // ~25%
+	HIGH: 'H', // ~30%
+} as const
+
+export type QrErrorCorrection = (typeof QrErrorCorrection)[keyof typeof QrErrorCorrection]
+
+/**
+ * Encoded symbol; `modules[y][x]` is true for dark modules
+ */
+export interface QrCode {
+	version: number
+	size: number
+	modules: boolean[][]
+}
+
+const MIN_VERSION = 1
+const MAX_VERSION = 40
+
+// Scanners need a light border of at least 4 modules
+const QUIET_ZONE = 4
+
+const BYTE_MODE = 0b0100
+
+// Error correction bits written into the format information
+const FORMAT_BITS: Record<QrErrorCorrection, number> = { L: 1, M: 0, Q: 3, H: 2 }
+
+// Error correction codewords per block, indexed by version (index 0 unused)
+const ECC_CODEWORDS_PER_BLOCK: Record<QrErrorCorrection, number[]> = {
+	L: [0, 7, 10, 15, 20, 26, 18, 20, 24, 30, 18, 20, 24, 26, 30, 22, 24, 28, 30, 28, 28, 28, 28, 30, 30, 26, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+	M: [0, 10, 16, 26, 18, 24, 16, 18, 22, 22, 26, 30, 22, 22, 24, 24, 28, 28, 26, 26, 26, 26, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28],
+	Q: [0, 13, 22, 18, 26, 18, 24, 18, 22, 20, 24, 28, 26, 24, 20, 30, 24, 28, 28, 26, 30, 28, 30, 30, 30, 30, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+	H: [0, 17, 28, 22, 16, 22, 28, 26, 26, 24, 28, 24, 28, 22, 24, 24, 30, 28, 28, 26, 28, 30, 24, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+}
+
+// Error correction blocks, indexed by version (index 0 unused)
+const ECC_BLOCKS: Record<QrErrorCorrection, number[]> = {
+	L: [0, 1, 1, 1, 1, 1, 2, 2, 2, 2, 4, 4, 4, 4, 4, 6, 6, 6, 6, 7, 8, 8, 9, 9, 10, 12, 12, 12, 13, 14, 15, 16, 17, 18, 19, 19, 20, 21, 22, 24, 25],
+	M: [0, 1, 1, 1, 2, 2, 4, 4, 4, 5, 5, 5, 8, 9, 9, 10, 10, 11, 13, 14, 16, 17, 17, 18, 20, 21, 23, 25, 26, 28, 29, 31, 33, 35, 37, 38, 40, 43, 45, 47, 49],
+	Q: [0, 1, 1, 2, 2, 4, 4, 6, 6, 8, 8, 8, 10, 12, 16, 12, 17, 16, 18, 21, 20, 23, 23, 25, 27, 29, 34, 34, 35, 38, 40, 43, 45, 48, 51, 53, 56, 59, 62, 65, 68],
+	H: [0, 1, 1, 2, 4, 4, 4, 5, 6, 8, 8, 11, 11, 16, 16, 18, 16, 19, 21, 25, 25, 25, 34, 30, 32, 35, 37, 40, 42, 45, 48, 51, 54, 57, 60, 63, 66, 70, 74, 77, 81],
+}
+
+// Penalty weights used to pick a mask (ISO/IEC 18004 §7.8.3)
+const PENALTY_RUN = 3
+const PENALTY_BLOCK = 3
+const PENALTY_FINDER_LIKE = 40
+const PENALTY_BALANCE = 10
+
+const MASKS: ((x: number, y: number) => boolean)[] = [
+	(x, y) => (x + y) % 2 === 0,
+	(_x, y) => y % 2 === 0,
+	(x) => x % 3 === 0,
+	(x, y) => (x + y) % 3 === 0,
+	(x, y) => (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0,
+	(x, y) => ((x * y) % 2) + ((x * y) % 3) === 0,
+	(x, y) => (((x * y) % 2) + ((x * y) % 3)) % 2 === 0,
+	(x, y) => (((x + y) % 2) + ((x * y) % 3)) % 2 === 0,
+]
+
+function getBit(value: number, index: number): boolean {
+	return ((value >>> index) & 1) !== 0
+}
+
+/**
+ * Modules left for data and error correction once the function patterns are placed
+ */
+function getRawDataModules(version: number): number {
+	let result = (16 * version + 128) * version + 64
+	if (version >= 2) {
+		const alignmentCount = Math.floor(version / 7) + 2
+		result -= (25 * alignmentCount - 10) * alignmentCount - 55
+		if (version >= 7) result -= 36 // Version information
+	}
+	return result
+}
+
+function getDataCodewords(version: number, ecLevel: QrErrorCorrection): number {
+	return (
+		Math.floor(getRawDataModules(version) / 8) -
+		ECC_CODEWORDS_PER_BLOCK[ecLevel][version] * ECC_BLOCKS[ecLevel][version]
+	)
+}
+
+function getDataBits(version: number, byteCount: number): number {
+	const countBits = version <= 9 ? 8 : 16
+	return 4 + countBits + byteCount * 8
+}
+
+/**
+ * Centre coordinates of the alignment patterns, on both axes
+ */
+function getAlignmentPositions(version: number, size: number): number[] {
+	if (version === 1) return []
+	const count = Math.floor(version / 7) + 2
+	const step = Math.floor((version * 8 + count * 3 + 5) / (count * 4 - 4)) * 2
+	const result = [6]
+	for (let position = size - 7; result.length < count; position -= step) {
+		result.splice(1, 0, position)
+	}
+	return result
+}
+
+/**
+ * Multiplies two elements of GF(2^8) modulo x^8 + x^4 + x^3 + x^2 + 1
+ */
+function gfMultiply(x: number, y: number): number {
+	let z = 0
+	for (let i = 7; i >= 0; i--) {
+		z = (z << 1) ^ ((z >>> 7) * 0x11d)
+		z ^= ((y >>> i) & 1) * x
+	}
+	return z
+}
+
+function getReedSolomonDivisor(degree: number): number[] {
+	const result = new Array<number>(degree).fill(0)
+	result[degree - 1] = 1
+	let root = 1
+	for (let i = 0; i < degree; i++) {
+		for (let j = 0; j < result.length; j++) {
+			result[j] = gfMultiply(result[j], root)
+			if (j + 1 < result.length) result[j] ^= result[j + 1]
+		}
+		root = gfMultiply(root, 0x02)
+	}
+	return result
+}
+
+function getReedSolomonRemainder(data: number[], divisor: number[]): number[] {
+	const result = divisor.map(() => 0)
+	for (const byte of data) {
+		const factor = byte ^ (result.shift() as number)
+		result.push(0)
+		divisor.forEach((coefficient, i) => {
+			result[i] ^= gfMultiply(coefficient, factor)
+		})
+	}
+	return result
+}
+
+/**
+ * Splits data codewords into blocks, adds error correction to each and interleaves them
+ */
+function addErrorCorrection(data: number[], version: number, ecLevel: QrErrorCorrection): number[] {
+	const blockCount = ECC_BLOCKS[ecLevel][version]
+	const eccLength = ECC_CODEWORDS_PER_BLOCK[ecLevel][version]
+	const rawCodewords = Math.floor(getRawDataModules(version) / 8)
+	const shortBlockCount = blockCount - (rawCodewords % blockCount)
+	const shortBlockLength = Math.floor(rawCodewords / blockCount)
+	const divisor = getReedSolomonDivisor(eccLength)
+
+	const blocks: number[][] = []
+	for (let i = 0, offset = 0; i < blockCount; i++) {
+		const blockData = data.slice(offset, offset + shortBlockLength - eccLength + (i < shortBlockCount ? 0 : 1))
+		offset += blockData.length
+		const ecc = getReedSolomonRemainder(blockData, divisor)
+		// Pad short blocks so all blocks line up while interleaving
+		if (i < shortBlockCount) blockData.push(0)
+		blocks.push([...blockData, ...ecc])
+	}
+
+	const result: number[] = []
+	for (let i = 0; i < blocks[0].length; i++) {
+		blocks.forEach((block, j) => {
+			if (i !== shortBlockLength - eccLength || j >= shortBlockCount) {
+				result.push(block[i])
+			}
+		})
+	}
+	return result
+}
+
+/**
+ * Mode indicator, character count, data, terminator and padding as codewords
+ */
+function createDataCodewords(bytes: Uint8Array, version: number, ecLevel: QrErrorCorrection): number[] {
+	const bits: number[] = []
+	const append = (value: number, length: number) => {
+		for (let i = length - 1; i >= 0; i--) bits.push((value >>> i) & 1)
+	}
+
+	append(BYTE_MODE, 4)
+	append(bytes.length, version <= 9 ? 8 : 16)
+	bytes.forEach((byte) => append(byte, 8))
+
+	const capacity = getDataCodewords(version, ecLevel) * 8
+	append(0, Math.min(4, capacity - bits.length))
+	append(0, (8 - (bits.length % 8)) % 8)
+	for (let pad = 0xec; bits.length < capacity; pad ^= 0xec ^ 0x11) {
+		append(pad, 8)
+	}
+
+	const codewords: number[] = []
+	for (let i = 0; i < bits.length; i += 8) {
+		codewords.push(bits.slice(i, i + 8).reduce((byte, bit) => (byte << 1) | bit, 0))
+	}
+	return codewords
+}
+
+/**
+ * Module grid under construction; function modules are kept out of masking
+ */
+class QrMatrix {
+	readonly size: number
+	readonly modules: boolean[][]
+	private readonly isFunction: boolean[][]
+	private readonly version: number
+	private readonly ecLevel: QrErrorCorrection
+
+	constructor(version: number, ecLevel: QrErrorCorrection) {
+		this.version = version
+		this.ecLevel = ecLevel
+		this.size = version * 4 + 17
+		this.modules = Array.from({ length: this.size }, () => new Array<boolean>(this.size).fill(false))
+		this.isFunction = Array.from({ length: this.size }, () => new Array<boolean>(this.size).fill(false))
+	}
+
+	private setFunction(x: number, y: number, dark: boolean): void {
+		this.modules[y][x] = dark
+		this.isFunction[y][x] = true
+	}
+
+	drawFunctionPatterns(): void {
+		// Timing patterns
+		for (let i = 0; i < this.size; i++) {
+			this.setFunction(6, i, i % 2 === 0)
+			this.setFunction(i, 6, i % 2 === 0)
+		}
+
+		this.drawFinderPattern(3, 3)
+		this.drawFinderPattern(this.size - 4, 3)
+		this.drawFinderPattern(3, this.size - 4)
+
+		// Alignment patterns, except where they would overlap the finders
+		const positions = getAlignmentPositions(this.version, this.size)
+		const last = positions.length - 1
+		positions.forEach((x, i) => {
+			positions.forEach((y, j) => {
+				if (!((i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0))) {
+					this.drawAlignmentPattern(x, y)
+				}
+			})
+		})
+
+		// Reserve the format area; the real bits are drawn once a mask is chosen
+		this.drawFormatBits(0)
+		this.drawVersion()
+	}
+
+	private drawFinderPattern(x: number, y: number): void {
+		for (let dy = -4; dy <= 4; dy++) {
+			for (let dx = -4; dx <= 4; dx++) {
+				const distance = Math.max(Math.abs(dx), Math.abs(dy))
+				const xx = x + dx
+				const yy = y + dy
+				if (xx >= 0 && xx < this.size && yy >= 0 && yy < this.size) {
+					// Includes the light separator around the finder
+					this.setFunction(xx, yy, distance !== 2 && distance !== 4)
+				}
+			}
+		}
+	}
+
+	private drawAlignmentPattern(x: number, y: number): void {
+		for (let dy = -2; dy <= 2; dy++) {
+			for (let dx = -2; dx <= 2; dx++) {
+				this.setFunction(x + dx, y + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1)
+			}
+		}
+	}
+
+	/**
+	 * Error correction level and mask with a BCH(15,5) code, in both copies
+	 */
+	drawFormatBits(mask: number): void {
+		const data = (FORMAT_BITS[this.ecLevel] << 3) | mask
+		let remainder = data
+		for (let i = 0; i < 10; i++) {
+			remainder = (remainder << 1) ^ ((remainder >>> 9) * 0x537)
+		}
+		const bits = ((data << 10) | remainder) ^ 0x5412
+
+		// Around the top-left finder
+		for (let i = 0; i <= 5; i++) this.setFunction(8, i, getBit(bits, i))
+		this.setFunction(8, 7, getBit(bits, 6))
+		this.setFunction(8, 8, getBit(bits, 7))
+		this.setFunction(7, 8, getBit(bits, 8))
+		for (let i = 9; i < 15; i++) this.setFunction(14 - i, 8, getBit(bits, i))
+
+		// Split between the other two finders
+		for (let i = 0; i < 8; i++) this.setFunction(this.size - 1 - i, 8, getBit(bits, i))
+		for (let i = 8; i < 15; i++) this.setFunction(8, this.size - 15 + i, getBit(bits, i))
+		this.setFunction(8, this.size - 8, true) // Always-dark module
+	}
+
+	/**
+	 * Version with a BCH(18,6) code, in both copies (version 7 and up)
+	 */
+	private drawVersion(): void {
+		if (this.version < 7) return
+		let remainder = this.version
+		for (let i = 0; i < 12; i++) {
+			remainder = (remainder << 1) ^ ((remainder >>> 11) * 0x1f25)
+		}
+		const bits = (this.version << 12) | remainder
+
+		for (let i = 0; i < 18; i++) {
+			const a = this.size - 11 + (i % 3)
+			const b = Math.floor(i / 3)
+			this.setFunction(a, b, getBit(bits, i))
+			this.setFunction(b, a, getBit(bits, i))
+		}
+	}
+
+	/**
+	 * Places codewords in the zigzag order: two-module columns from the right,
+	 * alternating upwards and downwards, skipping the vertical timing pattern
+	 */
+	drawCodewords(codewords: number[]): void {
+		let i = 0
+		for (let right = this.size - 1; right >= 1; right -= 2) {
+			if (right === 6) right = 5
+			for (let vertical = 0; vertical < this.size; vertical++) {
+				for (let j = 0; j < 2; j++) {
+					const x = right - j
+					const upward = ((right + 1) & 2) === 0
+					const y = upward ? this.size - 1 - vertical : vertical
+					if (!this.isFunction[y][x] && i < codewords.length * 8) {
+						this.modules[y][x] = getBit(codewords[i >>> 3], 7 - (i & 7))
+						i++
+					}
+					// Remainder bits stay light
+				}
+			}
+		}
+	}
+
+	/**
+	 * Flips data modules where the mask applies; applying a mask twice undoes it
+	 */
+	applyMask(mask: number): void {
+		const invert = MASKS[mask]
+		for (let y = 0; y < this.size; y++) {
+			for (let x = 0; x < this.size; x++) {
+				if (!this.isFunction[y][x] && invert(x, y)) {
+					this.modules[y][x] = !this.modules[y][x]
+				}
+			}
+		}
+	}
+
+	getPenaltyScore(): number {
+		let result = 0
+		const lines = (horizontal: boolean) =>
+			Array.from({ length: this.size }, (_, i) =>
+				Array.from({ length: this.size }, (_, j) => (horizontal ? this.modules[i][j] : this.modules[j][i]))
+			)
+
+		// Runs of five or more same-coloured modules, and 1:1:3:1:1 finder-like patterns
+		for (const line of [...lines(true), ...lines(false)]) {
+			let runColor = false
+			let runLength = 0
+			const history = new Array<number>(7).fill(0)
+			for (const dark of line) {
+				if (dark === runColor) {
+					runLength++
+					if (runLength === 5) result += PENALTY_RUN
+					else if (runLength > 5) result++
+				} else {
+					this.addRunToHistory(runLength, history)
+					if (!runColor) result += this.countFinderLikePatterns(history) * PENALTY_FINDER_LIKE
+					runColor = dark
+					runLength = 1
+				}
+			}
+			// The light quiet zone closes the last run
+			if (runColor) {
+				this.addRunToHistory(runLength, history)
+				runLength = 0
+			}
+			this.addRunToHistory(runLength + this.size, history)
+			result += this.countFinderLikePatterns(history) * PENALTY_FINDER_LIKE
+		}
+
+		// 2x2 blocks of the same colour
+		for (let y = 0; y < this.size - 1; y++) {
+			for (let x = 0; x < this.size - 1; x++) {
+				const dark = this.modules[y][x]
+				if (
+					dark === this.modules[y][x + 1] &&
+					dark === this.modules[y + 1][x] &&
+					dark === this.modules[y + 1][x + 1]
+				) {
+					result += PENALTY_BLOCK
+				}
+			}
+		}
+
+		// Distance from an even dark/light balance, in steps of 5%
+		const darkCount = this.modules.reduce((sum, row) => sum + row.filter(Boolean).length, 0)
+		const total = this.size * this.size
+		const steps = Math.ceil(Math.abs(darkCount * 20 - total * 10) / total) - 1
+		result += steps * PENALTY_BALANCE
+
+		return result
+	}
+
+	private addRunToHistory(length: number, history: number[]): void {
+		// The first run borders the light quiet zone
+		if (history[0] === 0) length += this.size
+		history.pop()
+		history.unshift(length)
+	}
+
+	private countFinderLikePatterns(history: number[]): number {
+		const n = history[1]
+		const core =
+			n > 0 && history[2] === n && history[3] === n * 3 && history[4] === n && history[5] === n
+		return (
+			(core && history[0] >= n * 4 && history[6] >= n ? 1 : 0) +
+			(core && history[6] >= n * 4 && history[0] >= n ? 1 : 0)
+		)
+	}
+}
+
+/**
+ * Encodes text into a QR code. Throws when the text is too long for the largest symbol.
+ */
+export function encodeQrCode(text: string, ecLevel: QrErrorCorrection = QrErrorCorrection.MEDIUM): QrCode {
+	const bytes = new TextEncoder().encode(text)
+
+	let version = MIN_VERSION
+	while (getDataBits(version, bytes.length) > getDataCodewords(version, ecLevel) * 8) {
+		if (version === MAX_VERSION) {
+			throw new Error('The text is too long for a QR code. Shorten it or leave some details out.')
+		}
+		version++
+	}
+
+	const matrix = new QrMatrix(version, ecLevel)
+	matrix.drawFunctionPatterns()
+	matrix.drawCodewords(addErrorCorrection(createDataCodewords(bytes, version, ecLevel), version, ecLevel))
+
+	let bestMask = 0
+	let bestScore = Infinity
+	MASKS.forEach((_, mask) => {
+		matrix.applyMask(mask)
+		matrix.drawFormatBits(mask)
+		const score = matrix.getPenaltyScore()
+		if (score < bestScore) {
+			bestMask = mask
+			bestScore = score
+		}
+		matrix.applyMask(mask)
+	})
+	matrix.applyMask(bestMask)
+	matrix.drawFormatBits(bestMask)
+
+	return { version, size: matrix.size, modules: matrix.modules }
+}
+
+/**
+ * Renders a QR code as an SVG document, one path for all dark modules
+ */
+export function renderQrSvg(qr: QrCode, border: number = QUIET_ZONE): string {
+	const dimension = qr.size + border * 2
+	const path: string[] = []
+	qr.modules.forEach((row, y) => {
+		row.forEach((dark, x) => {
+			if (dark) path.push(`M${x + border},${y + border}h1v1h-1z`)
+		})
+	})
+	return [
+		`<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${dimension} ${dimension}" shape-rendering="crispEdges">`,
+		`<rect width="100%" height="100%" fill="#ffffff"/>`,
+		`<path d="${path.join('')}" fill="#000000"/>`,
+		'</svg>',
+	].join('')
+}
+
+/**
+ * Renders a QR code as a PNG data URL, `scale` pixels per module
+ */
+export function renderQrPng(qr: QrCode, scale: number = 8, border: number = QUIET_ZONE): string {
+	const dimension = (qr.size + border * 2) * scale
+	const canvas = document.createElement('canvas')
+	canvas.width = dimension
+	canvas.height = dimension
+	const context = canvas.getContext('2d')
+	if (!context) {
+		throw new Error('The QR code could not be drawn. Your browser does not support canvas.')
+	}
+
+	context.fillStyle = '#ffffff'
+	context.fillRect(0, 0, dimension, dimension)
+	context.fillStyle = '#000000'
+	qr.modules.forEach((row, y) => {
+		row.forEach((dark, x) => {
+			if (dark) context.fillRect((x + border) * scale, (y + border) * scale, scale, scale)
+		})
+	})
+	return canvas.toDataURL('image/png')
+}
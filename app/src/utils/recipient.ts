@@ -0,0 +1,68 @@
+/**
+ * Recipient details for the inside address and salutation
+ */
+export interface RecipientDetails {
+	courtesyTitle?: string // e.g. Ms., Dr.
+	name?: string
+	title?: string // Job title, e.g. Engineering Manager
+	department?: string
+	companyName?: string
+	address?: string // Street address; may span several lines
+}
+
+/**
+ * Reads recipient details from form values
+ */
+export function getRecipientDetails(values: Record<string, string>): RecipientDetails {
+	return {
+		courtesyTitle: values.recipientCourtesyTitle,
+		name: values.recipientName,
+		title: values.recipientTitle,
+		department: values.recipientDepartment,
+		companyName: values.companyName,
+		address: values.recipientAddress,
+	}
+}
+
+/**
+ * Builds a business-letter salutation, e.g. "Dear Ms. Rivera:",
+ * "Dear Engineering Hiring Team:" or "Dear Hiring Manager:"
+ */
+export function buildSalutation(recipient: RecipientDetails): string {
+	const name = recipient.name?.trim()
+	const courtesyTitle = recipient.courtesyTitle?.trim()
+	const department = recipient.department?.trim()
+
+	if (name && courtesyTitle) {
+		// Courtesy titles go with the last name
+		const lastName = name.split(/\s+/).pop()
+		return `Dear ${courtesyTitle} ${lastName}:`
+	}
+	if (name) {
+		return `Dear ${name}:`
+	}
+	if (department) {
+		const team = /\bteam$/i.test(department) ? department : `${department} Hiring Team`
+		return `Dear ${team}:`
+	}
+	return 'Dear Hiring Manager:'
+}
+
+/**
+ * Inside address lines: name, title, department, company, street address
+ */
+export function buildInsideAddress(recipient: RecipientDetails): string[] {
+	const name = [recipient.courtesyTitle, recipient.name]
+		.map((part) => part?.trim())
+		.filter(Boolean)
+		.join(' ')
+	return [
+		recipient.name?.trim() ? name : '',
+		recipient.title,
+		recipient.department,
+		recipient.companyName,
+		...(recipient.address ?? '').split('\n'),
+	]
+		.map((line) => line?.trim() ?? '')
+		.filter(Boolean)
+}
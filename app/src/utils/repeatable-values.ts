@@ -0,0 +1,57 @@
+import { type TemplateVariable } from '../types'
+
+/**
+ * One entry of a repeatable group, keyed by sub-field name
+ */
+export type GroupItem = Record<string, string>
+
+/**
+ * Parses a repeatable group value. Invalid or empty values give an empty list.
+ */
+export function parseGroupItems(value: string): GroupItem[] {
+	if (!value.trim()) return []
+	try {
+		const parsed: unknown = JSON.parse(value)
+		if (!Array.isArray(parsed)) return []
+		return parsed
+			.filter((item): item is Record<string, unknown> => !!item && typeof item === 'object')
+			.map((item) =>
+				Object.fromEntries(
+					Object.entries(item).filter((entry): entry is [string, string] => typeof entry[1] === 'string')
+				)
+			)
+	} catch {
+		return []
+	}
+}
+
+/**
+ * Serializes group items into a form value. An empty list is stored as ''
+ * so required checks and `{{#if}}` treat it as empty.
+ */
+export function serializeGroupItems(items: GroupItem[]): string {
+	return items.length > 0 ? JSON.stringify(items) : ''
+}
+
+/**
+ * Creates an empty item with every sub-field present
+ */
+export function createGroupItem(variable: TemplateVariable): GroupItem {
+	return Object.fromEntries((variable.fields ?? []).map((field) => [field.name, '']))
+}
+
+/**
+ * Plain-text summary of a group, one item per line
+ */
+export function summarizeGroupItems(variable: TemplateVariable, value: string): string {
+	const fields = variable.fields ?? []
+	return parseGroupItems(value)
+		.map((item) =>
+			fields
+				.map((field) => (item[field.name] || '').trim())
+				.filter(Boolean)
+				.join(', ')
+		)
+		.filter(Boolean)
+		.join('\n')
+}
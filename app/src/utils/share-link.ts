@@ -0,0 +1,226 @@
+/**
+ * Share-link codec. A link carries a versioned payload with the template id,
+ * form values and optionally a template pack, deflate-compressed and
+ * base64url-encoded into the URL hash: `#share=<version>.<data>`.
+ * From version 2 the payload can be encrypted with a passphrase.
+ */
+
+import { type TemplatePack } from '../types'
+import { validateTemplatePack } from './template-pack'
+
+// Version written by encodeShareLink; older versions keep their decoders
+export const SHARE_LINK_VERSION = 2
+
+const HASH_PREFIX = '#share='
+
+// Version 2 data starts with one of these bytes
+const ShareMode = {
+	PLAIN: 0,
+	ENCRYPTED: 1, // Followed by salt, IV and AES-GCM ciphertext
+} as const
+
+const SALT_BYTES = 16
+const IV_BYTES = 12
+const PBKDF2_ITERATIONS = 250_000
+
+const DAMAGED_MESSAGE = 'The share link is damaged. Make sure the whole link was copied.'
+
+/**
+ * Decoded contents of a share link
+ */
+export interface SharePayload {
+	templateId: string | null // null when the link does not name a template
+	values: Record<string, string>
+	pack?: TemplatePack // Custom templates the receiver may not have
+}
+
+async function pipeBytes(bytes: Uint8Array, transform: GenericTransformStream): Promise<Uint8Array> {
+	const stream = new Blob([bytes as BlobPart]).stream().pipeThrough(transform)
+	return new Uint8Array(await new Response(stream).arrayBuffer())
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+	let binary = ''
+	// Chunked so long letters don't overflow the argument limit
+	for (let i = 0; i < bytes.length; i += 0x8000) {
+		binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000))
+	}
+	return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+function fromBase64Url(value: string): Uint8Array {
+	const base64 = value.replace(/-/g, '+').replace(/_/g, '/')
+	const binary = atob(base64 + '='.repeat((4 - (base64.length % 4)) % 4))
+	return Uint8Array.from(binary, (char) => char.charCodeAt(0))
+}
+
+/**
+ * Derives an AES-GCM key from a passphrase with PBKDF2
+ */
+async function deriveKey(passphrase: string, salt: Uint8Array): Promise<CryptoKey> {
+	const material = await crypto.subtle.importKey(
+		'raw',
+		new TextEncoder().encode(passphrase),
+		'PBKDF2',
+		false,
+		['deriveKey']
+	)
+	return crypto.subtle.deriveKey(
+		{ name: 'PBKDF2', salt: salt as BufferSource, iterations: PBKDF2_ITERATIONS, hash: 'SHA-256' },
+		material,
+		{ name: 'AES-GCM', length: 256 },
+		false,
+		['encrypt', 'decrypt']
+	)
+}
+
+/**
+ * Keeps string values only, so a tampered link can't put other types into the form
+ */
+function toSharePayload(data: unknown): SharePayload {
+	const payload = data as { templateId?: unknown; values?: unknown; pack?: unknown } | null
+	if (!payload || typeof payload !== 'object') {
+		throw new Error(DAMAGED_MESSAGE)
+	}
+
+	const values: Record<string, string> = {}
+	if (payload.values && typeof payload.values === 'object') {
+		Object.entries(payload.values).forEach(([key, value]) => {
+			if (typeof value === 'string') values[key] = value
+		})
+	}
+
+	return {
+		templateId: typeof payload.templateId === 'string' ? payload.templateId : null,
+		values,
+		pack: payload.pack ? validateTemplatePack(payload.pack) : undefined,
+	}
+}
+
+async function inflatePayload(bytes: Uint8Array): Promise<SharePayload> {
+	try {
+		const json = await pipeBytes(bytes, new DecompressionStream('deflate-raw'))
+		return toSharePayload(JSON.parse(new TextDecoder().decode(json)))
+	} catch {
+		throw new Error(DAMAGED_MESSAGE)
+	}
+}
+
+function decodeBytes(data: string): Uint8Array {
+	try {
+		return fromBase64Url(data)
+	} catch {
+		throw new Error(DAMAGED_MESSAGE)
+	}
+}
+
+/**
+ * Payload decoders keyed by link version
+ */
+const DECODERS: Record<number, (data: string, passphrase?: string) => Promise<SharePayload>> = {
+	1: (data) => inflatePayload(decodeBytes(data)), // Template id, values and an optional template pack
+	// Adds a mode byte for passphrase encryption
+	2: async (data, passphrase) => {
+		const bytes = decodeBytes(data)
+		if (bytes[0] === ShareMode.PLAIN) {
+			return inflatePayload(bytes.subarray(1))
+		}
+		if (bytes[0] !== ShareMode.ENCRYPTED) {
+			throw new Error(DAMAGED_MESSAGE)
+		}
+		if (!passphrase) {
+			throw new Error('This share link is protected. Enter the passphrase to open it.')
+		}
+
+		const salt = bytes.subarray(1, 1 + SALT_BYTES)
+		const iv = bytes.subarray(1 + SALT_BYTES, 1 + SALT_BYTES + IV_BYTES)
+		let compressed: Uint8Array
+		try {
+			const key = await deriveKey(passphrase, salt)
+			compressed = new Uint8Array(
+				await crypto.subtle.decrypt(
+					{ name: 'AES-GCM', iv: iv as BufferSource },
+					key,
+					bytes.subarray(1 + SALT_BYTES + IV_BYTES) as BufferSource
+				)
+			)
+		} catch {
+			throw new Error('The passphrase is wrong, or the share link is damaged.')
+		}
+		return inflatePayload(compressed)
+	},
+}
+
+/**
+ * Builds a link to the current page that opens the template with these values.
+ * With a passphrase, the payload is encrypted (AES-GCM with a PBKDF2-derived key).
+ */
+export async function encodeShareLink(payload: SharePayload, passphrase?: string): Promise<string> {
+	const json = JSON.stringify({
+		templateId: payload.templateId,
+		values: payload.values,
+		pack: payload.pack,
+	})
+	const compressed = await pipeBytes(new TextEncoder().encode(json), new CompressionStream('deflate-raw'))
+
+	let data: Uint8Array
+	if (passphrase) {
+		const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES))
+		const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES))
+		const key = await deriveKey(passphrase, salt)
+		const ciphertext = new Uint8Array(
+			await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, compressed as BufferSource)
+		)
+		data = new Uint8Array([ShareMode.ENCRYPTED, ...salt, ...iv, ...ciphertext])
+	} else {
+		data = new Uint8Array([ShareMode.PLAIN, ...compressed])
+	}
+
+	const url = new URL(window.location.href)
+	url.search = ''
+	url.hash = `${HASH_PREFIX.slice(1)}${SHARE_LINK_VERSION}.${toBase64Url(data)}`
+	return url.toString()
+}
+
+/**
+ * Whether a URL hash holds a share link
+ */
+export function isShareLinkHash(hash: string): boolean {
+	return hash.startsWith(HASH_PREFIX)
+}
+
+function parseShareLinkHash(hash: string): { version: number; data: string } {
+	const match = /^(\d+)\.([A-Za-z0-9_-]+)$/.exec(hash.slice(HASH_PREFIX.length))
+	if (!isShareLinkHash(hash) || !match) {
+		throw new Error('The share link is incomplete. Make sure the whole link was copied.')
+	}
+	return { version: Number(match[1]), data: match[2] }
+}
+
+/**
+ * Whether a share link needs a passphrase to open
+ */
+export function isEncryptedShareLink(hash: string): boolean {
+	try {
+		const { version, data } = parseShareLinkHash(hash)
+		return version >= 2 && decodeBytes(data.slice(0, 4))[0] === ShareMode.ENCRYPTED
+	} catch {
+		return false
+	}
+}
+
+/**
+ * Decodes the payload of a share-link hash. Throws with a readable message when it can't be opened.
+ */
+export async function decodeShareLink(hash: string, passphrase?: string): Promise<SharePayload> {
+	const { version, data } = parseShareLinkHash(hash)
+	const decode = DECODERS[version]
+	if (!decode) {
+		throw new Error(
+			version > SHARE_LINK_VERSION
+				? 'The share link was created by a newer version of LetterCraft. Reload the page to update.'
+				: `Unsupported share link version: ${version}`
+		)
+	}
+	return decode(data, passphrase)
+}
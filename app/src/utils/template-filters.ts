@@ -0,0 +1,98 @@
+/**
+ * Filter registry for template variables, used as `{{name | filter:"arg"}}`
+ */
+
+export interface TemplateFilter {
+	apply: (value: string, args: string[]) => string
+	description: string
+	// When true, an empty result is intentional and the placeholder is not shown
+	keepEmpty?: boolean
+}
+
+/**
+ * Parses a date input value (YYYY-MM-DD) as a local date
+ */
+function parseDate(value: string): Date | null {
+	const trimmed = value.trim()
+	const isoMatch = trimmed.match(/^(\d{4})-(\d{2})-(\d{2})$/)
+	const date = isoMatch
+		? new Date(Number(isoMatch[1]), Number(isoMatch[2]) - 1, Number(isoMatch[3]))
+		: new Date(trimmed)
+	return isNaN(date.getTime()) ? null : date
+}
+
+function formatDate(value: string, options: Intl.DateTimeFormatOptions): string {
+	const date = parseDate(value)
+	return date ? date.toLocaleDateString('en-US', options) : value
+}
+
+/**
+ * Splits a comma-separated value into trimmed items
+ */
+function splitList(value: string): string[] {
+	return value.split(',').map((item) => item.trim()).filter(Boolean)
+}
+
+export const TEMPLATE_FILTERS: Record<string, TemplateFilter> = {
+	upper: {
+		description: 'UPPERCASE the value',
+		apply: (value) => value.toUpperCase(),
+	},
+	lower: {
+		description: 'lowercase the value',
+		apply: (value) => value.toLowerCase(),
+	},
+	capitalize: {
+		description: 'Capitalize the first letter',
+		apply: (value) => value.charAt(0).toUpperCase() + value.slice(1),
+	},
+	title: {
+		description: 'Capitalize Every Word',
+		apply: (value) => value.replace(/\b\w/g, (char) => char.toUpperCase()),
+	},
+	trim: {
+		description: 'Remove surrounding whitespace',
+		apply: (value) => value.trim(),
+	},
+	long: {
+		description: 'Long date, e.g. January 5, 2026',
+		apply: (value) => formatDate(value, { year: 'numeric', month: 'long', day: 'numeric' }),
+	},
+	short: {
+		description: 'Short date, e.g. Jan 5, 2026',
+		apply: (value) => formatDate(value, { year: 'numeric', month: 'short', day: 'numeric' }),
+	},
+	numeric: {
+		description: 'Numeric date, e.g. 01/05/2026',
+		apply: (value) => formatDate(value, { year: 'numeric', month: '2-digit', day: '2-digit' }),
+	},
+	list: {
+		description: 'Join a comma-separated list, e.g. list:"and" gives "A, B and C"',
+		apply: (value, [conjunction = 'and']) => {
+			const items = splitList(value)
+			if (items.length <= 1) return items.join('')
+			return `${items.slice(0, -1).join(', ')} ${conjunction} ${items[items.length - 1]}`
+		},
+	},
+	default: {
+		description: 'Fallback text when the value is empty, e.g. default:"this role"',
+		apply: (value, [fallback = '']) => (value.trim() ? value : fallback),
+	},
+	prefix: {
+		description: 'Prepend text when the value is present; renders nothing when empty',
+		keepEmpty: true,
+		apply: (value, [text = '']) => (value.trim() ? `${text}${value}` : ''),
+	},
+	suffix: {
+		description: 'Append text when the value is present; renders nothing when empty',
+		keepEmpty: true,
+		apply: (value, [text = '']) => (value.trim() ? `${value}${text}` : ''),
+	},
+}
+
+/**
+ * Registers (or replaces) a template filter
+ */
+export function registerFilter(name: string, filter: TemplateFilter): void {
+	TEMPLATE_FILTERS[name] = filter
+}
@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest'
+import { type TemplateVariable, FieldType } from '../types'
+import { lintTemplate } from './template-linter'
+
+const VARIABLES: TemplateVariable[] = [
+	{ id: 'companyName', name: 'companyName', label: 'Company Name', fieldType: FieldType.TEXT, required: true },
+	{ id: 'position', name: 'position', label: 'Position', fieldType: FieldType.TEXT },
+	{ id: 'remote', name: 'remote', label: 'Remote', fieldType: FieldType.CHECKBOX },
+	{
+		id: 'projects',
+		name: 'projects',
+		label: 'Past Projects',
+		fieldType: FieldType.REPEATABLE,
+		fields: [
+			{ name: 'projectName', label: 'Project Name', fieldType: FieldType.TEXT },
+			{ name: 'projectRole', label: 'Role', fieldType: FieldType.TEXT },
+		],
+	},
+]
+
+function lint(content: string, declared: string[] = VARIABLES.map((v) => v.id)) {
+	return lintTemplate({ content, variables: declared }, VARIABLES)
+}
+
+function codes(content: string, declared?: string[]) {
+	return lint(content, declared).map((diagnostic) => diagnostic.code)
+}
+
+describe('lintTemplate', () => {
+	it('accepts a template that uses every declared variable', () => {
+		const content = [
+			'Dear {{companyName | upper}} team,',
+			'{{#if remote}}I would work remotely as {{position}}.{{else}}I would relocate.{{/if}}',
+			'{{#each projects}}- {{projectName}} ({{projectRole}}){{/each}}',
+		].join('\n')
+
+		expect(lint(content)).toEqual([])
+	})
+
+	it('reports a block that is never closed, on the line it opens', () => {
+		const diagnostics = lint('{{companyName}} {{position}} {{projects}}\n{{#if remote}}Remote')
+
+		expect(diagnostics).toContainEqual(expect.objectContaining({ code: 'unbalanced-block', line: 2 }))
+	})
+
+	it('reports a closing tag without an opening block', () => {
+		expect(codes('{{companyName}} {{position}} {{remote}} {{projects}}{{/if}}')).toContain('unbalanced-block')
+	})
+
+	it('reports an unknown filter', () => {
+		const diagnostics = lint('{{companyName | shout}} {{position}} {{remote}} {{projects}}')
+
+		expect(diagnostics).toContainEqual(
+			expect.objectContaining({ code: 'unknown-filter', message: expect.stringContaining('"shout"') })
+		)
+	})
+
+	it('reports a registered variable the template does not declare', () => {
+		const diagnostics = lint('{{companyName}} {{position}}', ['companyName'])
+
+		expect(diagnostics).toContainEqual(expect.objectContaining({ code: 'undeclared-variable', variable: 'position' }))
+	})
+
+	it('reports a variable that is not registered at all', () => {
+		expect(codes('{{companyName}} {{position}} {{remote}} {{projects}} {{salary}}')).toEqual(['unknown-variable'])
+	})
+
+	it('does not report {{#each}} sub-fields as unknown variables', () => {
+		const diagnostics = lint('{{companyName}} {{position}} {{remote}}\n{{#each projects}}{{projectName}}{{/each}}')
+
+		expect(diagnostics.filter((d) => d.variable === 'projectName')).toEqual([])
+		expect(diagnostics).toEqual([])
+	})
+
+	it('reports a sub-field used outside its {{#each}} block', () => {
+		const diagnostics = lint('{{companyName}} {{position}} {{remote}} {{projects}} {{projectName}}')
+
+		expect(diagnostics).toContainEqual(expect.objectContaining({ code: 'unknown-variable', variable: 'projectName' }))
+	})
+
+	it('flags a required variable without a token', () => {
+		expect(codes('{{position}} {{remote}} {{projects}}')).toEqual(['missing-required'])
+	})
+})
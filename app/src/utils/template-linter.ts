@@ -0,0 +1,188 @@
+import {
+	type Template,
+	type TemplateVariable,
+	type TemplateDiagnostic,
+	DiagnosticSeverity,
+	FieldType,
+} from '../types'
+import { tokenizeTemplate, extractVariables } from './template-processor'
+import { TEMPLATE_FILTERS } from './template-filters'
+
+/**
+ * Returns the 1-based line number of an offset in the content
+ */
+function lineAt(content: string, index: number): number {
+	return content.slice(0, index).split('\n').length
+}
+
+/**
+ * Lints template content against the registered variables and the template's
+ * declared `variables` list
+ */
+export function lintTemplate(
+	template: Pick<Template, 'content' | 'variables'>,
+	variables: TemplateVariable[]
+): TemplateDiagnostic[] {
+	const { content } = template
+	const diagnostics: TemplateDiagnostic[] = []
+	const referenced = new Set<string>()
+	const openBlocks: { kind: string; line: number; subFields: string[] }[] = []
+	let offset = 0
+
+	// Sub-field names of the enclosing {{#each}} blocks
+	const inLoopScope = (name: string) => openBlocks.some((block) => block.subFields.includes(name))
+
+	tokenizeTemplate(content).forEach((token) => {
+		if (token.type === 'text') {
+			// Braces that did not form a complete tag
+			const stray = token.value.match(/\{\{|\}\}/)
+			if (stray) {
+				diagnostics.push({
+					severity: DiagnosticSeverity.ERROR,
+					code: 'unbalanced-braces',
+					message: `Unmatched "${stray[0]}"`,
+					line: lineAt(content, offset + (stray.index ?? 0)),
+				})
+			}
+			offset += token.value.length
+			return
+		}
+
+		const line = lineAt(content, token.index)
+		offset = token.index + token.raw.length
+
+		switch (token.type) {
+			case 'invalid':
+				diagnostics.push({
+					severity: DiagnosticSeverity.ERROR,
+					code: 'invalid-tag',
+					message: `Cannot parse tag ${token.raw}`,
+					line,
+				})
+				break
+			case 'variable':
+				if (!inLoopScope(token.name)) referenced.add(token.name)
+				token.filters
+					.filter((filter) => !TEMPLATE_FILTERS[filter.name])
+					.forEach((filter) => {
+						diagnostics.push({
+							severity: DiagnosticSeverity.WARNING,
+							code: 'unknown-filter',
+							message: `Unknown filter "${filter.name}" in ${token.raw}`,
+							line,
+							variable: token.name,
+						})
+					})
+				break
+			case 'open': {
+				if (!inLoopScope(token.name)) referenced.add(token.name)
+				const group = variables.find((v) => v.name === token.name)
+				if (token.kind === 'each' && group && group.fieldType !== FieldType.REPEATABLE) {
+					diagnostics.push({
+						severity: DiagnosticSeverity.ERROR,
+						code: 'invalid-loop',
+						message: `{{#each ${token.name}}} needs a repeating group, but "${token.name}" is a ${group.fieldType} field`,
+						line,
+						variable: token.name,
+					})
+				}
+				openBlocks.push({
+					kind: token.kind,
+					line,
+					subFields: token.kind === 'each' ? (group?.fields ?? []).map((field) => field.name) : [],
+				})
+				break
+			}
+			case 'else':
+				if (openBlocks.length === 0) {
+					diagnostics.push({
+						severity: DiagnosticSeverity.ERROR,
+						code: 'unbalanced-block',
+						message: '{{else}} outside of an {{#if}}, {{#unless}} or {{#each}} block',
+						line,
+					})
+				}
+				break
+			case 'close': {
+				const top = openBlocks[openBlocks.length - 1]
+				if (top && top.kind === token.kind) {
+					openBlocks.pop()
+				} else {
+					diagnostics.push({
+						severity: DiagnosticSeverity.ERROR,
+						code: 'unbalanced-block',
+						message: top
+							? `${token.raw} does not match {{#${top.kind}}} opened on line ${top.line}`
+							: `${token.raw} has no matching opening tag`,
+						line,
+					})
+				}
+				break
+			}
+		}
+	})
+
+	openBlocks.forEach((block) => {
+		diagnostics.push({
+			severity: DiagnosticSeverity.ERROR,
+			code: 'unbalanced-block',
+			message: `{{#${block.kind}}} is never closed with {{/${block.kind}}}`,
+			line: block.line,
+		})
+	})
+
+	referenced.forEach((name) => {
+		const variable = variables.find((v) => v.name === name)
+		if (!variable) {
+			diagnostics.push({
+				severity: DiagnosticSeverity.ERROR,
+				code: 'unknown-variable',
+				message: `"${name}" is not a registered variable and will appear as literal text`,
+				variable: name,
+			})
+		} else if (!template.variables.includes(variable.id)) {
+			diagnostics.push({
+				severity: DiagnosticSeverity.ERROR,
+				code: 'undeclared-variable',
+				message: `"${name}" is used but not declared in the template's variables`,
+				variable: name,
+			})
+		}
+	})
+
+	template.variables.forEach((id) => {
+		const variable = variables.find((v) => v.id === id)
+		if (!variable || referenced.has(variable.name)) return
+		diagnostics.push(
+			variable.required
+				? {
+						severity: DiagnosticSeverity.ERROR,
+						code: 'missing-required',
+						message: `Required field "${variable.label}" has no {{${variable.name}}} token`,
+						variable: variable.name,
+					}
+				: {
+						severity: DiagnosticSeverity.WARNING,
+						code: 'unused-variable',
+						message: `"${variable.name}" is declared but not used in the content`,
+						variable: variable.name,
+					}
+		)
+	})
+
+	return diagnostics
+}
+
+/**
+ * Returns the templates that declare or reference a variable
+ */
+export function findTemplatesUsingVariable(
+	variable: TemplateVariable,
+	templates: Template[]
+): Template[] {
+	return templates.filter(
+		(template) =>
+			template.variables.includes(variable.id) ||
+			extractVariables(template.content).includes(variable.name)
+	)
+}
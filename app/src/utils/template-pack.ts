@@ -0,0 +1,335 @@
+import {
+	type SubFieldDefinition,
+	type Template,
+	type TemplatePack,
+	type TemplateVariable,
+	type ValidationRules,
+	FieldGroup,
+	FieldType,
+	ImportConflictStrategy,
+} from '../types'
+import { createUniqueId } from './unique-id'
+
+export const TEMPLATE_PACK_FORMAT = 'lettercraft-template-pack'
+export const TEMPLATE_PACK_VERSION = 1
+
+// Imported patterns run on every keystroke; longer ones are refused
+const MAX_PATTERN_LENGTH = 200
+const RULE_DATE_REGEX = /^(today|\d{4}-\d{2}-\d{2})$/
+
+/**
+ * Planned outcome of importing one template from a pack
+ */
+export interface TemplateImportItem {
+	template: Template
+	conflict: 'none' | 'built-in' | 'existing'
+}
+
+/**
+ * Templates and variables to add or replace after resolving conflicts
+ */
+export interface TemplateImportResult {
+	added: Template[]
+	replaced: Template[]
+	skipped: Template[]
+	variablesToAdd: TemplateVariable[]
+	// Variables whose id exists locally with a different definition; the local one is kept
+	variablesKept: TemplateVariable[]
+	// Id each pack template ended up with locally (copies get a new id)
+	templateIds: Record<string, string>
+}
+
+/**
+ * Bundles templates with the variable definitions they reference
+ */
+export function createTemplatePack(
+	templates: Template[],
+	variables: TemplateVariable[]
+): TemplatePack {
+	const usedIds = new Set(templates.flatMap((t) => t.variables))
+	return {
+		format: TEMPLATE_PACK_FORMAT,
+		version: TEMPLATE_PACK_VERSION,
+		exportedAt: new Date().toISOString(),
+		templates,
+		variables: variables.filter((v) => usedIds.has(v.id)),
+	}
+}
+
+function isStringArray(value: unknown): value is string[] {
+	return Array.isArray(value) && value.every((item) => typeof item === 'string')
+}
+
+function parseTemplate(value: unknown, index: number): Template {
+	const t = value as Partial<Template> | null
+	if (
+		!t ||
+		typeof t.id !== 'string' ||
+		typeof t.name !== 'string' ||
+		typeof t.content !== 'string' ||
+		!isStringArray(t.variables)
+	) {
+		throw new Error(`Template #${index + 1} is missing an id, name, content or variables list`)
+	}
+	const now = new Date().toISOString()
+	return {
+		id: t.id,
+		name: t.name,
+		content: t.content,
+		variables: t.variables,
+		description: typeof t.description === 'string' ? t.description : undefined,
+		createdAt: typeof t.createdAt === 'string' ? t.createdAt : now,
+		updatedAt: typeof t.updatedAt === 'string' ? t.updatedAt : now,
+	}
+}
+
+function isFieldType(value: unknown): value is FieldType {
+	return (Object.values(FieldType) as unknown[]).includes(value)
+}
+
+function isFieldGroup(value: unknown): value is FieldGroup {
+	return (Object.values(FieldGroup) as unknown[]).includes(value)
+}
+
+function isString(value: unknown): value is string {
+	return typeof value === 'string'
+}
+
+function isBoolean(value: unknown): value is boolean {
+	return typeof value === 'boolean'
+}
+
+function isFiniteNumber(value: unknown): value is number {
+	return typeof value === 'number' && Number.isFinite(value)
+}
+
+function isCount(value: unknown): value is number {
+	return isFiniteNumber(value) && value >= 0
+}
+
+function isRuleDate(value: unknown): value is string {
+	return typeof value === 'string' && RULE_DATE_REGEX.test(value)
+}
+
+function isPattern(value: unknown): value is string {
+	if (typeof value !== 'string' || value.length > MAX_PATTERN_LENGTH) return false
+	try {
+		new RegExp(value)
+		return true
+	} catch {
+		return false
+	}
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+	return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+/**
+ * Reads an optional property, throwing when it is set to something invalid
+ */
+function readOptional<T>(value: unknown, isValid: (value: unknown) => value is T, error: string): T | undefined {
+	if (value === undefined) return undefined
+	if (!isValid(value)) throw new Error(error)
+	return value
+}
+
+function parseSubField(value: unknown, variableLabel: string): SubFieldDefinition {
+	if (!isRecord(value) || !isString(value.name) || !isString(value.label) || !isFieldType(value.fieldType)) {
+		throw new Error(`A sub-field of "${variableLabel}" is missing a name, label or valid field type`)
+	}
+	const error = `Sub-field "${value.label}" of "${variableLabel}" has an invalid`
+	return {
+		name: value.name,
+		label: value.label,
+		fieldType: value.fieldType,
+		placeholder: readOptional(value.placeholder, isString, `${error} placeholder`),
+		required: readOptional(value.required, isBoolean, `${error} required flag`),
+	}
+}
+
+function parseValidationRules(value: unknown, variableLabel: string): ValidationRules {
+	if (!isRecord(value)) {
+		throw new Error(`Variable "${variableLabel}" has invalid validation rules`)
+	}
+	const error = `Variable "${variableLabel}" has an invalid`
+	return {
+		minLength: readOptional(value.minLength, isCount, `${error} minimum length`),
+		maxLength: readOptional(value.maxLength, isCount, `${error} maximum length`),
+		pattern: readOptional(
+			value.pattern,
+			isPattern,
+			`${error} pattern; it must be a regular expression of at most ${MAX_PATTERN_LENGTH} characters`
+		),
+		patternMessage: readOptional(value.patternMessage, isString, `${error} pattern message`),
+		allowedValues: readOptional(value.allowedValues, isStringArray, `${error} list of allowed values`),
+		minDate: readOptional(value.minDate, isRuleDate, `${error} earliest date`),
+		maxDate: readOptional(value.maxDate, isRuleDate, `${error} latest date`),
+	}
+}
+
+/**
+ * Validates a variable definition, keeping only the properties a variable can have
+ */
+function parseVariable(value: unknown, index: number): TemplateVariable {
+	if (
+		!isRecord(value) ||
+		!isString(value.id) ||
+		!isString(value.name) ||
+		!isString(value.label) ||
+		!isFieldType(value.fieldType)
+	) {
+		throw new Error(`Variable #${index + 1} is missing an id, name, label or valid field type`)
+	}
+	const label = value.label
+	const error = `Variable "${label}" has an invalid`
+	const fields = readOptional(value.fields, Array.isArray, `${error} list of sub-fields`)
+	return {
+		id: value.id,
+		name: value.name,
+		label,
+		fieldType: value.fieldType,
+		placeholder: readOptional(value.placeholder, isString, `${error} placeholder`),
+		required: readOptional(value.required, isBoolean, `${error} required flag`),
+		defaultValue: readOptional(value.defaultValue, isString, `${error} default value`),
+		options: readOptional(value.options, isStringArray, `${error} list of options`),
+		group: readOptional(value.group, isFieldGroup, `${error} form section`),
+		order: readOptional(value.order, isFiniteNumber, `${error} order`),
+		validation:
+			value.validation === undefined ? undefined : parseValidationRules(value.validation, label),
+		currency: readOptional(value.currency, isString, `${error} currency`),
+		fields: fields?.map((field) => parseSubField(field, label)),
+		maxItems: readOptional(value.maxItems, isCount, `${error} item limit`),
+	}
+}
+
+/**
+ * Compares variable definitions regardless of property order
+ */
+function isSameVariable(a: TemplateVariable, b: TemplateVariable): boolean {
+	const stringify = (variable: TemplateVariable) =>
+		JSON.stringify(variable, (_key, value: unknown) =>
+			isRecord(value)
+				? Object.fromEntries(Object.entries(value).sort(([x], [y]) => x.localeCompare(y)))
+				: value
+		)
+	return stringify(a) === stringify(b)
+}
+
+/**
+ * Parses and validates a template pack file. Throws with a readable message when invalid.
+ */
+export function parseTemplatePack(json: string): TemplatePack {
+	let data: unknown
+	try {
+		data = JSON.parse(json)
+	} catch {
+		throw new Error('The file is not valid JSON')
+	}
+	return validateTemplatePack(data)
+}
+
+/**
+ * Validates an already-parsed template pack, e.g. one carried by a share link
+ */
+export function validateTemplatePack(value: unknown): TemplatePack {
+	const data = value as Partial<TemplatePack> | null
+	if (!data || data.format !== TEMPLATE_PACK_FORMAT) {
+		throw new Error('The file is not a LetterCraft template pack')
+	}
+	if (typeof data.version !== 'number' || data.version > TEMPLATE_PACK_VERSION) {
+		throw new Error(`Unsupported template pack version: ${String(data.version)}`)
+	}
+	if (!Array.isArray(data.templates) || data.templates.length === 0) {
+		throw new Error('The template pack does not contain any templates')
+	}
+
+	return {
+		format: TEMPLATE_PACK_FORMAT,
+		version: data.version,
+		exportedAt: typeof data.exportedAt === 'string' ? data.exportedAt : '',
+		templates: data.templates.map(parseTemplate),
+		variables: Array.isArray(data.variables) ? data.variables.map(parseVariable) : [],
+	}
+}
+
+/**
+ * Flags templates in a pack whose ids collide with built-in or existing templates
+ */
+export function planTemplatePackImport(
+	pack: TemplatePack,
+	existingTemplates: Template[],
+	isBuiltIn: (id: string) => boolean
+): TemplateImportItem[] {
+	return pack.templates.map((template) => ({
+		template,
+		conflict: isBuiltIn(template.id)
+			? 'built-in'
+			: existingTemplates.some((t) => t.id === template.id)
+				? 'existing'
+				: 'none',
+	}))
+}
+
+/**
+ * Resolves conflicts using a strategy per template id (defaults to importing a copy)
+ */
+export function resolveTemplatePackImport(
+	pack: TemplatePack,
+	existingTemplates: Template[],
+	existingVariables: TemplateVariable[],
+	strategies: Record<string, ImportConflictStrategy>
+): TemplateImportResult {
+	const result: TemplateImportResult = {
+		added: [],
+		replaced: [],
+		skipped: [],
+		variablesToAdd: [],
+		variablesKept: [],
+		templateIds: {},
+	}
+	const takenIds = existingTemplates.map((t) => t.id)
+	const now = new Date().toISOString()
+
+	pack.templates.forEach((template) => {
+		const exists = existingTemplates.some((t) => t.id === template.id)
+		const strategy = strategies[template.id] ?? ImportConflictStrategy.COPY
+
+		result.templateIds[template.id] = template.id
+		if (!exists) {
+			result.added.push(template)
+			takenIds.push(template.id)
+		} else if (strategy === ImportConflictStrategy.REPLACE) {
+			result.replaced.push({ ...template, updatedAt: now })
+		} else if (strategy === ImportConflictStrategy.SKIP) {
+			result.skipped.push(template)
+		} else {
+			const id = createUniqueId(`${template.id}-imported`, takenIds)
+			takenIds.push(id)
+			result.templateIds[template.id] = id
+			result.added.push({
+				...template,
+				id,
+				name: `${template.name} (Imported)`,
+				createdAt: now,
+				updatedAt: now,
+			})
+		}
+	})
+
+	const neededIds = new Set(
+		[...result.added, ...result.replaced].flatMap((t) => t.variables)
+	)
+	pack.variables
+		.filter((variable) => neededIds.has(variable.id))
+		.forEach((variable) => {
+			const existing = existingVariables.find((v) => v.id === variable.id)
+			if (!existing) {
+				result.variablesToAdd.push(variable)
+			} else if (!isSameVariable(existing, variable)) {
+				result.variablesKept.push(variable)
+			}
+		})
+
+	return result
+}
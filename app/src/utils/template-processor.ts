@@ -1,48 +1,420 @@
-import { type TemplateVariable } from '../types'
+import { type TemplateVariable, FieldType } from '../types'
+import { TEMPLATE_FILTERS } from './template-filters'
+import { formatFieldValue } from './field-format'
+import { parseGroupItems } from './repeatable-values'
+
+/**
+ * Filter applied to a variable, e.g. `list:"and"`
+ */
+export interface FilterCall {
+	name: string
+	args: string[]
+}
+
+/**
+ * Block helpers: conditionals and loops over repeatable groups
+ */
+export type BlockKind = 'if' | 'unless' | 'each'
+
+/**
+ * Parsed template node
+ */
+type TemplateNode =
+	| { type: 'text'; value: string }
+	| { type: 'variable'; name: string; filters: FilterCall[]; raw: string }
+	| {
+			type: 'block'
+			kind: BlockKind
+			name: string
+			children: TemplateNode[]
+			inverse: TemplateNode[]
+	  }
+
+/**
+ * Piece of processed content. Values and placeholders keep the name of the variable they came from,
+ * so exports can tell them apart from template text.
+ */
+export type ContentSegment =
+	| { type: 'text'; value: string }
+	| { type: 'value'; value: string; variable: string }
+	| { type: 'placeholder'; value: string; variable: string } // Shown for empty fields
+
+/**
+ * Lexical token; tag tokens carry their offset in the template content
+ */
+export type TemplateToken =
+	| { type: 'text'; value: string }
+	| { type: 'variable'; name: string; filters: FilterCall[]; raw: string; index: number }
+	| { type: 'open'; kind: BlockKind; name: string; raw: string; index: number }
+	| { type: 'else'; raw: string; index: number }
+	| { type: 'close'; kind: BlockKind; raw: string; index: number }
+	| { type: 'invalid'; raw: string; index: number }
+
+const TAG_REGEX = /\{\{([^{}]*)\}\}/g
+const OPEN_REGEX = /^#(if|unless|each)\s+(\w+)$/
+const CLOSE_REGEX = /^\/(if|unless|each)$/
+const FILTER_REGEX = /^(\w+)(?::(.*))?$/
+
+/**
+ * Splits on a separator, ignoring separators inside quoted strings
+ */
+function splitOutsideQuotes(input: string, separator: string): string[] {
+	const parts: string[] = []
+	let current = ''
+	let quote: string | null = null
+
+	for (const char of input) {
+		if (quote) {
+			if (char === quote) quote = null
+			current += char
+		} else if (char === '"' || char === "'") {
+			quote = char
+			current += char
+		} else if (char === separator) {
+			parts.push(current)
+			current = ''
+		} else {
+			current += char
+		}
+	}
+	parts.push(current)
+
+	return parts.map((part) => part.trim())
+}
+
+function unquote(value: string): string {
+	const match = value.match(/^(["'])(.*)\1$/)
+	return match ? match[2] : value
+}
+
+/**
+ * Parses a variable expression such as `techStack | list:"and" | prefix:", in "`
+ */
+function parseExpression(inner: string): { name: string; filters: FilterCall[] } | null {
+	const [name, ...segments] = splitOutsideQuotes(inner, '|')
+	if (!/^\w+$/.test(name)) return null
+
+	const filters: FilterCall[] = []
+	for (const segment of segments) {
+		const match = segment.match(FILTER_REGEX)
+		if (!match) return null
+		filters.push({
+			name: match[1],
+			args: match[2] !== undefined ? splitOutsideQuotes(match[2], ',').map(unquote) : [],
+		})
+	}
+
+	return { name, filters }
+}
+
+/**
+ * Splits template content into text, variable and block tag tokens.
+ * Tags that cannot be parsed are returned as `invalid` and rendered literally.
+ */
+export function tokenizeTemplate(template: string): TemplateToken[] {
+	const tokens: TemplateToken[] = []
+	let lastIndex = 0
+
+	for (const match of template.matchAll(TAG_REGEX)) {
+		const raw = match[0]
+		const inner = match[1].trim()
+		const start = match.index ?? 0
+
+		let token: TemplateToken
+		const open = inner.match(OPEN_REGEX)
+		const close = inner.match(CLOSE_REGEX)
+		const expression = parseExpression(inner)
+		if (open) {
+			token = { type: 'open', kind: open[1] as BlockKind, name: open[2], raw, index: start }
+		} else if (close) {
+			token = { type: 'close', kind: close[1] as BlockKind, raw, index: start }
+		} else if (inner === 'else') {
+			token = { type: 'else', raw, index: start }
+		} else if (expression) {
+			token = { type: 'variable', ...expression, raw, index: start }
+		} else {
+			token = { type: 'invalid', raw, index: start }
+		}
+
+		let before = template.slice(lastIndex, start)
+		let end = start + raw.length
+
+		// A block tag on a line of its own should not leave an empty line behind
+		if (token.type !== 'variable' && token.type !== 'invalid') {
+			const indent = before.match(/[ \t]*$/)![0].length
+			const lineStart = start - indent
+			const lineEnd = template.slice(end).match(/^[ \t]*(\r?\n|$)/)
+			if (lineEnd && (lineStart === 0 || template[lineStart - 1] === '\n')) {
+				before = before.slice(0, before.length - indent)
+				end += lineEnd[0].length
+			}
+		}
+
+		if (before) {
+			tokens.push({ type: 'text', value: before })
+		}
+		tokens.push(token)
+		lastIndex = end
+	}
+
+	if (lastIndex < template.length) {
+		tokens.push({ type: 'text', value: template.slice(lastIndex) })
+	}
+
+	return tokens
+}
+
+/**
+ * Builds a node tree from tokens. Stray or unclosed block tags are kept as literal text.
+ */
+function parse(tokens: TemplateToken[]): TemplateNode[] {
+	const root: TemplateNode[] = []
+	const stack: {
+		node: Extract<TemplateNode, { type: 'block' }>
+		raw: string
+		inElse: boolean
+		elseRaw?: string
+	}[] = []
+
+	const current = (): TemplateNode[] => {
+		const top = stack[stack.length - 1]
+		if (!top) return root
+		return top.inElse ? top.node.inverse : top.node.children
+	}
+
+	tokens.forEach((token) => {
+		switch (token.type) {
+			case 'text':
+				current().push({ type: 'text', value: token.value })
+				break
+			case 'invalid':
+				current().push({ type: 'text', value: token.raw })
+				break
+			case 'variable':
+				current().push(token)
+				break
+			case 'open': {
+				const node: Extract<TemplateNode, { type: 'block' }> = {
+					type: 'block',
+					kind: token.kind,
+					name: token.name,
+					children: [],
+					inverse: [],
+				}
+				current().push(node)
+				stack.push({ node, raw: token.raw, inElse: false })
+				break
+			}
+			case 'else': {
+				const top = stack[stack.length - 1]
+				if (top && !top.inElse) {
+					top.inElse = true
+					top.elseRaw = token.raw
+				} else {
+					current().push({ type: 'text', value: token.raw })
+				}
+				break
+			}
+			case 'close': {
+				const top = stack[stack.length - 1]
+				if (top && top.node.kind === token.kind) {
+					stack.pop()
+				} else {
+					current().push({ type: 'text', value: token.raw })
+				}
+				break
+			}
+		}
+	})
+
+	// Unwrap unclosed blocks so their content is still rendered as written
+	while (stack.length > 0) {
+		const { node, raw, elseRaw } = stack.pop()!
+		const parent = stack.length > 0
+			? (stack[stack.length - 1].inElse
+				? stack[stack.length - 1].node.inverse
+				: stack[stack.length - 1].node.children)
+			: root
+		const index = parent.indexOf(node)
+		const flattened: TemplateNode[] = [
+			{ type: 'text', value: raw },
+			...node.children,
+			...(elseRaw ? [{ type: 'text', value: elseRaw } as TemplateNode, ...node.inverse] : []),
+		]
+		parent.splice(index, 1, ...flattened)
+	}
+
+	return root
+}
+
+/**
+ * Returns the form value of a variable, falling back to its default when empty.
+ * An unchecked checkbox stays unchecked even when it defaults to checked.
+ */
+function getRawValue(variable: TemplateVariable, values: Record<string, string>): string {
+	if (variable.fieldType === FieldType.CHECKBOX && variable.id in values) {
+		return values[variable.id]
+	}
+	return values[variable.id] || variable.defaultValue || ''
+}
+
+/**
+ * Resolves the raw value of a variable by its template name
+ */
+function resolveValue(
+	name: string,
+	variables: TemplateVariable[],
+	values: Record<string, string>
+): string {
+	const variable = variables.find((v) => v.name === name)
+	if (!variable) {
+		return values[name] || ''
+	}
+	return getRawValue(variable, values)
+}
+
+/**
+ * Runs a value through its filter chain. Unknown filters are skipped.
+ */
+function applyFilters(
+	value: string,
+	filters: FilterCall[]
+): { output: string; keepEmpty: boolean } {
+	let keepEmpty = false
+	const output = filters.reduce((current, call) => {
+		const filter = TEMPLATE_FILTERS[call.name]
+		if (!filter) return current
+		keepEmpty = keepEmpty || !!filter.keepEmpty
+		return filter.apply(current, call.args)
+	}, value)
+	return { output, keepEmpty }
+}
+
+function render(
+	nodes: TemplateNode[],
+	variables: TemplateVariable[],
+	values: Record<string, string>
+): ContentSegment[] {
+	return nodes.flatMap((node): ContentSegment[] => {
+		switch (node.type) {
+			case 'text':
+				return [{ type: 'text', value: node.value }]
+			case 'variable': {
+				const variable = variables.find((v) => v.name === node.name)
+				if (!variable) {
+					// Leave unknown tokens untouched
+					return [{ type: 'text', value: node.raw }]
+				}
+				const value = formatFieldValue(variable, getRawValue(variable, values).trim())
+				const { output, keepEmpty } = applyFilters(value, node.filters)
+
+				// Show placeholder if value is empty, otherwise show the value
+				if (!output.trim() && keepEmpty) return []
+				if (output.trim()) {
+					return [{ type: 'value', value: output, variable: node.name }]
+				}
+				return [{ type: 'placeholder', value: variable.placeholder || `[${variable.label}]`, variable: node.name }]
+			}
+			case 'block': {
+				if (node.kind === 'each') {
+					return renderEach(node, variables, values)
+				}
+				const isSet = resolveValue(node.name, variables, values).trim().length > 0
+				const show = node.kind === 'if' ? isSet : !isSet
+				return render(show ? node.children : node.inverse, variables, values)
+			}
+		}
+	})
+}
+
+/**
+ * Renders an `{{#each group}}` block once per item. Inside the block, sub-field
+ * names resolve against the current item before the outer variables.
+ * The `{{else}}` branch renders when the group has no items.
+ */
+function renderEach(
+	node: Extract<TemplateNode, { type: 'block' }>,
+	variables: TemplateVariable[],
+	values: Record<string, string>
+): ContentSegment[] {
+	const group = variables.find((v) => v.name === node.name)
+	const items = parseGroupItems(resolveValue(node.name, variables, values))
+	if (!group || items.length === 0) {
+		return render(node.inverse, variables, values)
+	}
+
+	const subVariables: TemplateVariable[] = (group.fields ?? []).map((field) => ({
+		...field,
+		id: `${group.id}.${field.name}`,
+		required: false,
+	}))
+	const scopedVariables = [...subVariables, ...variables]
+
+	return items.flatMap((item) => {
+		const scopedValues = { ...values }
+		;(group.fields ?? []).forEach((field) => {
+			scopedValues[`${group.id}.${field.name}`] = item[field.name] || ''
+		})
+		return render(node.children, scopedVariables, scopedValues)
+	})
+}
 
 /**
  * Processes a template string by replacing variables with their values
  * Shows placeholders when values are empty
+ *
+ * Supports conditional sections evaluated against the form values:
+ * `{{#if name}}...{{else}}...{{/if}}` and `{{#unless name}}...{{/unless}}`,
+ * loops over repeatable groups with `{{#each projects}}...{{/each}}`,
+ * and formatting filters such as `{{date | long}}` (see template-filters.ts)
  */
 export function processTemplate(
 	template: string,
 	variables: TemplateVariable[],
 	values: Record<string, string>
 ): string {
-	let processed = template
-
-	variables.forEach((variable) => {
-		const value = values[variable.id] || variable.defaultValue || ''
-		const regex = new RegExp(`\\{\\{${variable.name}\\}\\}`, 'g')
-		
-		// Special handling for techStack - format it nicely when present
-		if (variable.id === 'techStack' && value.trim()) {
-			const formattedValue = `, particularly in ${value.trim()}`
-			processed = processed.replace(regex, formattedValue)
-		} else if (variable.id === 'techStack' && !value.trim()) {
-			// Remove the placeholder if techStack is empty
-			processed = processed.replace(regex, '')
-		} else {
-			// Show placeholder if value is empty, otherwise show the value
-			const displayValue = value.trim() || variable.placeholder || `[${variable.label}]`
-			processed = processed.replace(regex, displayValue)
-		}
-	})
+	return joinSegments(renderTemplateSegments(template, variables, values))
+}
 
-	return processed
+/**
+ * Processes a template like processTemplate, keeping track of which text came from which variable
+ */
+export function renderTemplateSegments(
+	template: string,
+	variables: TemplateVariable[],
+	values: Record<string, string>
+): ContentSegment[] {
+	return render(parse(tokenizeTemplate(template)), variables, values)
+}
+
+/**
+ * Plain text of processed content
+ */
+export function joinSegments(segments: ContentSegment[]): string {
+	return segments.map((segment) => segment.value).join('')
 }
 
 /**
- * Extracts variable names from template content
+ * Extracts variable names from template content, including those used in conditions.
+ * When `definitions` are given, sub-field names used inside `{{#each}}` are left out.
  */
-export function extractVariables(template: string): string[] {
-	const regex = /\{\{(\w+)\}\}/g
-	const matches = template.matchAll(regex)
+export function extractVariables(template: string, definitions: TemplateVariable[] = []): string[] {
 	const variables = new Set<string>()
 
-	for (const match of matches) {
-		variables.add(match[1])
+	const collect = (nodes: TemplateNode[], scope: string[]) => {
+		nodes.forEach((node) => {
+			if (node.type === 'variable') {
+				if (!scope.includes(node.name)) variables.add(node.name)
+			} else if (node.type === 'block') {
+				if (!scope.includes(node.name)) variables.add(node.name)
+				const group = node.kind === 'each' ? definitions.find((v) => v.name === node.name) : undefined
+				const subFields = (group?.fields ?? []).map((field) => field.name)
+				collect(node.children, [...scope, ...subFields])
+				collect(node.inverse, scope)
+			}
+		})
 	}
+	collect(parse(tokenizeTemplate(template)), [])
 
 	return Array.from(variables)
 }
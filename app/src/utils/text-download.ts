@@ -1,8 +1,7 @@
 /**
- * Downloads text content as a .txt file
+ * Downloads a blob as a file
  */
-export function downloadText(content: string, filename: string = 'cover-letter.txt'): void {
-	const blob = new Blob([content], { type: 'text/plain' })
+export function downloadBlob(blob: Blob, filename: string): void {
 	const url = URL.createObjectURL(blob)
 	const link = document.createElement('a')
 	link.href = url
@@ -12,3 +11,14 @@ export function downloadText(content: string, filename: string = 'cover-letter.t
 	document.body.removeChild(link)
 	URL.revokeObjectURL(url)
 }
+
+/**
+ * Downloads text content as a .txt file (or another text format via `type`)
+ */
+export function downloadText(
+	content: string,
+	filename: string = 'cover-letter.txt',
+	type: string = 'text/plain'
+): void {
+	downloadBlob(new Blob([content], { type }), filename)
+}
@@ -0,0 +1,46 @@
+/**
+ * Helpers for building ids for user-created records
+ */
+
+/**
+ * Converts a display name into a kebab-case slug
+ */
+export function slugify(name: string): string {
+	return name
+		.toLowerCase()
+		.trim()
+		.replace(/[^a-z0-9]+/g, '-')
+		.replace(/^-+|-+$/g, '')
+}
+
+/**
+ * Converts a display name into a camelCase identifier usable in `{{tokens}}`
+ */
+export function toCamelCase(name: string): string {
+	return name
+		.trim()
+		.replace(/[^a-zA-Z0-9]+/g, ' ')
+		.trim()
+		.split(' ')
+		.filter(Boolean)
+		.map((word, index) =>
+			index === 0
+				? word.charAt(0).toLowerCase() + word.slice(1)
+				: word.charAt(0).toUpperCase() + word.slice(1)
+		)
+		.join('')
+		.replace(/^(\d)/, '_$1')
+}
+
+/**
+ * Returns `base`, or `base-2`, `base-3`... if it is already taken
+ */
+export function createUniqueId(base: string, existingIds: string[], separator: string = '-'): string {
+	let id = base
+	let suffix = 2
+	while (existingIds.includes(id)) {
+		id = `${base}${separator}${suffix}`
+		suffix += 1
+	}
+	return id
+}
@@ -0,0 +1,60 @@
+/**
+ * Builds vCard 3.0 (RFC 2426) contact cards from sender details
+ */
+
+import { type BasicDetails } from '../types'
+
+/**
+ * Escapes a text value (RFC 2426 §4)
+ */
+function escapeValue(value: string): string {
+	return value
+		.trim()
+		.replace(/\\/g, '\\\\')
+		.replace(/;/g, '\\;')
+		.replace(/,/g, '\\,')
+		.replace(/\r?\n/g, '\\n')
+}
+
+/**
+ * Splits a full name into family and given names; the last word is taken as the family name
+ */
+function splitName(fullName: string): { family: string; given: string } {
+	const words = fullName.trim().split(/\s+/).filter(Boolean)
+	if (words.length < 2) return { family: '', given: words[0] ?? '' }
+	return { family: words[words.length - 1], given: words.slice(0, -1).join(' ') }
+}
+
+/**
+ * Whether the details hold anything a contact card can carry
+ */
+export function hasVCardDetails(details: BasicDetails): boolean {
+	return [details.fullName, details.email, details.phone, details.linkedIn, details.portfolio].some((value) =>
+		value?.trim()
+	)
+}
+
+/**
+ * Builds a contact card; empty details are left out, which keeps QR codes small
+ */
+export function createVCard(details: BasicDetails): string {
+	const { family, given } = splitName(details.fullName)
+	const address = [details.address, details.city, details.state, details.zipCode, details.country]
+
+	const lines = [
+		'BEGIN:VCARD',
+		'VERSION:3.0',
+		`N:${escapeValue(family)};${escapeValue(given)};;;`,
+		`FN:${escapeValue(details.fullName)}`,
+		details.email.trim() && `EMAIL;TYPE=INTERNET:${escapeValue(details.email)}`,
+		details.phone.trim() && `TEL;TYPE=CELL:${escapeValue(details.phone)}`,
+		address.some((part) => part.trim()) &&
+			`ADR;TYPE=HOME:;;${address.map(escapeValue).join(';')}`,
+		// URLs are not text values and stay unescaped
+		details.linkedIn?.trim() && `URL:${details.linkedIn.trim()}`,
+		details.portfolio?.trim() && `URL:${details.portfolio.trim()}`,
+		'END:VCARD',
+	]
+
+	return lines.filter(Boolean).join('\r\n')
+}
@@ -0,0 +1,147 @@
+/**
+ * Minimal ZIP writer (PKWARE APPNOTE 6.3) for building Office documents in the browser.
+ * Entries are deflated with the built-in CompressionStream; no ZIP64 or encryption.
+ */
+
+export interface ZipEntry {
+	path: string // Forward slashes, no leading slash
+	data: Uint8Array | string // Strings are stored as UTF-8
+}
+
+const LOCAL_FILE_HEADER = 0x04034b50
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50
+
+const VERSION_NEEDED = 20 // 2.0: deflate
+const FLAG_UTF8_NAMES = 0x0800
+const METHOD_DEFLATE = 8
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+	let c = n
+	for (let k = 0; k < 8; k++) {
+		c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+	}
+	return c >>> 0
+})
+
+function crc32(bytes: Uint8Array): number {
+	let crc = 0xffffffff
+	for (const byte of bytes) {
+		crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8)
+	}
+	return (crc ^ 0xffffffff) >>> 0
+}
+
+async function deflateRaw(bytes: Uint8Array): Promise<Uint8Array> {
+	const stream = new Blob([bytes as BlobPart]).stream().pipeThrough(new CompressionStream('deflate-raw'))
+	return new Uint8Array(await new Response(stream).arrayBuffer())
+}
+
+/**
+ * MS-DOS date and time fields used by ZIP headers (local time, 2-second resolution)
+ */
+function toDosDateTime(date: Date): { time: number; date: number } {
+	return {
+		time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+		date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+	}
+}
+
+/**
+ * Little-endian header builder
+ */
+class HeaderWriter {
+	private readonly bytes: number[] = []
+
+	uint16(value: number): this {
+		this.bytes.push(value & 0xff, (value >>> 8) & 0xff)
+		return this
+	}
+
+	uint32(value: number): this {
+		this.bytes.push(value & 0xff, (value >>> 8) & 0xff, (value >>> 16) & 0xff, (value >>> 24) & 0xff)
+		return this
+	}
+
+	append(data: Uint8Array): this {
+		this.bytes.push(...data)
+		return this
+	}
+
+	toBytes(): Uint8Array {
+		return new Uint8Array(this.bytes)
+	}
+}
+
+/**
+ * Packs entries into a ZIP archive, in the given order
+ */
+export async function createZip(entries: ZipEntry[], type: string = 'application/zip'): Promise<Blob> {
+	const encoder = new TextEncoder()
+	const modified = toDosDateTime(new Date())
+	const parts: Uint8Array[] = []
+	const centralDirectory: Uint8Array[] = []
+	let offset = 0
+
+	for (const entry of entries) {
+		const name = encoder.encode(entry.path)
+		const data = typeof entry.data === 'string' ? encoder.encode(entry.data) : entry.data
+		const compressed = await deflateRaw(data)
+		const crc = crc32(data)
+
+		const localHeader = new HeaderWriter()
+			.uint32(LOCAL_FILE_HEADER)
+			.uint16(VERSION_NEEDED)
+			.uint16(FLAG_UTF8_NAMES)
+			.uint16(METHOD_DEFLATE)
+			.uint16(modified.time)
+			.uint16(modified.date)
+			.uint32(crc)
+			.uint32(compressed.length)
+			.uint32(data.length)
+			.uint16(name.length)
+			.uint16(0) // Extra field length
+			.append(name)
+			.toBytes()
+
+		centralDirectory.push(
+			new HeaderWriter()
+				.uint32(CENTRAL_DIRECTORY_HEADER)
+				.uint16(VERSION_NEEDED) // Version made by
+				.uint16(VERSION_NEEDED)
+				.uint16(FLAG_UTF8_NAMES)
+				.uint16(METHOD_DEFLATE)
+				.uint16(modified.time)
+				.uint16(modified.date)
+				.uint32(crc)
+				.uint32(compressed.length)
+				.uint32(data.length)
+				.uint16(name.length)
+				.uint16(0) // Extra field length
+				.uint16(0) // Comment length
+				.uint16(0) // Disk number
+				.uint16(0) // Internal attributes
+				.uint32(0) // External attributes
+				.uint32(offset)
+				.append(name)
+				.toBytes()
+		)
+
+		parts.push(localHeader, compressed)
+		offset += localHeader.length + compressed.length
+	}
+
+	const directorySize = centralDirectory.reduce((sum, header) => sum + header.length, 0)
+	const end = new HeaderWriter()
+		.uint32(END_OF_CENTRAL_DIRECTORY)
+		.uint16(0) // This disk
+		.uint16(0) // Disk with the central directory
+		.uint16(entries.length)
+		.uint16(entries.length)
+		.uint32(directorySize)
+		.uint32(offset)
+		.uint16(0) // Comment length
+		.toBytes()
+
+	return new Blob([...parts, ...centralDirectory, end] as BlobPart[], { type })
+}